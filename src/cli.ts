@@ -1,8 +1,14 @@
 import { Command } from 'commander';
-import { generateCareerLog } from './lib/generator.js';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { createGenerateCommand } from './commands/generate.js';
+import { createExportCommand } from './commands/export.js';
+import { createSummaryCommand } from './commands/summary.js';
+import { createStatsCommand } from './commands/stats.js';
+import { createConfigCommand } from './commands/config.js';
+import { createCacheCommand } from './commands/cache.js';
+import { createAddCommand } from './commands/add.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -19,89 +25,19 @@ export async function runCLI(args: string[]) {
     .name('career-log')
     .description('Generate professional career logs from git commits')
     .version(packageJson.version)
-    .option('-r, --repo <path>', 'Git repository path')
-    .option('-o, --output <file>', 'Output file path', 'career-log.json')
-    .option('-l, --limit <number>', 'Maximum commits to process', '100')
-    .option('-s, --since <date>', 'Only commits since date (ISO format)')
-    .option('-a, --author <email|name>', 'Filter by author')
-    .option('--api-key <key>', 'OpenAI API key (enables AI enhancement)')
-    .option('--use-local-llm', 'Use local Ollama instance')
-    .option('--ollama-model <model>', 'Ollama model name', 'llama3.2')
-    .option('--enterprise', 'Enterprise mode (no external APIs, data-local)')
-    .option('--skip-low-impact', 'Randomly skip 50% of low-impact commits')
-    .option('--confidence-threshold <0-1>', 'Minimum confidence for pattern matching', '0.5')
-    .option('--format <json|md>', 'Output format', 'json')
-    .option('--skip-pr', 'Skip PR parsing and only use commit messages')
-    .option('--github-token <token>', 'GitHub API token for fetching PR details')
-    .option('--gitlab-token <token>', 'GitLab API token for fetching PR details')
-    .option('--gitlab-url <url>', 'GitLab instance URL (default: https://gitlab.com)')
+    .option('-c, --config <file>', 'Config file (in addition to .careerlogrc in the working and home directories)')
+    .option('-p, --profile <name>', 'Config profile to use (e.g. enterprise, resume, weekly)')
     .option('-v, --verbose', 'Detailed logging');
 
-  // Check for help or version flags before parsing
-  if (args.includes('--help') || args.includes('-h')) {
-    program.help();
-    return;
-  }
-
-  if (args.includes('--version') || args.includes('-V')) {
-    console.log(packageJson.version);
-    return;
-  }
-
-  program.parse(args);
-
-  const options = program.opts();
-  
-  // Get all non-option arguments (potential commands or repo paths)
-  const nonOptionArgs = args.filter(arg => 
-    !arg.startsWith('-') && 
-    arg !== 'career-log' && 
-    arg !== 'node' && 
-    !arg.includes('career-log.js') &&
-    arg !== 'bin/career-log.js'
-  );
-  
-  // Check if first non-option arg is 'generate' command
-  const hasGenerateCommand = nonOptionArgs[0] === 'generate';
-  const command = hasGenerateCommand ? 'generate' : null;
-  
-  // Workaround: manually check args for --repo if not parsed
-  if (!options.repo) {
-    const repoIndex = args.indexOf('--repo');
-    if (repoIndex >= 0 && repoIndex + 1 < args.length) {
-      options.repo = args[repoIndex + 1];
-    } else {
-      const repoShortIndex = args.indexOf('-r');
-      if (repoShortIndex >= 0 && repoShortIndex + 1 < args.length) {
-        options.repo = args[repoShortIndex + 1];
-      } else {
-        // If we have a non-option arg that's not 'generate', it might be a repo path
-        const potentialRepo = hasGenerateCommand ? nonOptionArgs[1] : nonOptionArgs[0];
-        if (potentialRepo && potentialRepo !== 'generate') {
-          options.repo = potentialRepo;
-        } else {
-          options.repo = process.cwd();
-        }
-      }
-    }
-  }
-
-  // Enterprise mode validation
-  if (options.enterprise) {
-    if (options.apiKey || options.useLocalLlm) {
-      console.error('Error: --enterprise mode cannot be used with AI options');
-      process.exit(1);
-    }
-    // Enterprise mode also skips PR parsing (no external APIs)
-    options.skipPr = true;
-  }
-
-  // Handle commands - if command is 'generate' or no command specified, run generate
-  if (!command || command === 'generate') {
-    await generateCareerLog(options);
-  } else {
-    console.error(`Unknown command: ${command}`);
-    console.error('Run "career-log --help" for usage information.');
-    process.exit(1);
-  }
+  // `generate` is the default, so `career-log --repo .` keeps working
+  program.addCommand(createGenerateCommand(), { isDefault: true });
+  program.addCommand(createAddCommand());
+  program.addCommand(createExportCommand());
+  program.addCommand(createSummaryCommand());
+  program.addCommand(createStatsCommand());
+  program.addCommand(createConfigCommand());
+  program.addCommand(createCacheCommand());
+
+  // args are already stripped of the node executable and script path
+  await program.parseAsync(args, { from: 'user' });
 }
@@ -0,0 +1,60 @@
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { writeFileSync } from 'fs';
+import { readCareerLog } from '../lib/log-store.js';
+import { formatOutput } from '../lib/output-formatter.js';
+import {
+  addManualEntries,
+  createEmptyCareerLog,
+  createManualEntry,
+  readBragDoc,
+  ManualEntryInput,
+} from '../lib/manual-entries.js';
+import { DEFAULT_LOG_FILE, collect } from './options.js';
+
+interface AddOptions {
+  date?: string;
+  impact: string;
+  tag?: string[];
+  link?: string[];
+  from?: string;
+  log: string;
+}
+
+export function createAddCommand(): Command {
+  return new Command('add')
+    .description('Add achievements that never show up in git (incidents, design docs, mentoring, talks), or import a brag doc')
+    .argument('[achievement]', 'What you did, e.g. "Led the incident response for the checkout outage"')
+    .option('--date <date>', 'When it happened, YYYY-MM-DD (default: today)')
+    .option('--impact <high|medium|low>', 'Impact level (default for imported items without one)', 'medium')
+    .option('--tag <tag>', 'Tag, e.g. incident or mentoring (repeatable; added to imported items too)', collect)
+    .option('--link <url>', 'Link to a design doc, incident report or recording (repeatable)', collect)
+    .option('--from <file>', 'Import a brag doc (Markdown, YAML or JSON) instead')
+    .option('--log <file>', 'Career log JSON file to add to', DEFAULT_LOG_FILE)
+    .action((achievement: string | undefined, options: AddOptions) => {
+      if (!achievement && !options.from) {
+        throw new Error('Give the achievement text, or a brag doc with --from');
+      }
+
+      const inputs: ManualEntryInput[] = options.from
+        ? readBragDoc(options.from).map(input => ({
+          ...input,
+          impact: input.impact || options.impact,
+          tags: [...(input.tags || []), ...(options.tag || [])],
+        }))
+        : [{
+          achievement: achievement!,
+          date: options.date,
+          impact: options.impact,
+          tags: options.tag,
+          links: options.link,
+        }];
+
+      const existing = readCareerLog(options.log) || createEmptyCareerLog();
+      const { log, added, updated } = addManualEntries(existing, inputs.map(createManualEntry));
+      writeFileSync(options.log, formatOutput(log, 'json'), 'utf-8');
+
+      const counts = [`${added} added`, ...(updated > 0 ? [`${updated} updated`] : [])].join(', ');
+      console.log(chalk.green('✓') + ' ' + chalk.bold(`Manual entries: ${counts} in ${options.log}`));
+    });
+}
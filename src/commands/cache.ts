@@ -0,0 +1,30 @@
+import { Command } from 'commander';
+import { clearAnalysisCache, getAnalysisCacheInfo, DEFAULT_CACHE_DIR } from '../lib/analysis-cache.js';
+
+export function createCacheCommand(): Command {
+  const command = new Command('cache')
+    .description('Manage the analysis cache')
+    .option('--cache-dir <dir>', 'Analysis cache directory', DEFAULT_CACHE_DIR);
+
+  command
+    .command('info')
+    .description('Show the cache location and size')
+    .action((_options, subcommand: Command) => {
+      const { cacheDir } = subcommand.optsWithGlobals();
+      const info = getAnalysisCacheInfo(cacheDir);
+      console.log(`Cache directory: ${cacheDir}`);
+      console.log(`Cached commits: ${info.commits}`);
+      console.log(`Size: ${(info.bytes / 1024).toFixed(1)} KB`);
+    });
+
+  command
+    .command('clear')
+    .description('Delete all cached analysis results')
+    .action((_options, subcommand: Command) => {
+      const { cacheDir } = subcommand.optsWithGlobals();
+      const cleared = clearAnalysisCache(cacheDir);
+      console.log(`Cleared ${cleared} cached commit${cleared !== 1 ? 's' : ''} from ${cacheDir}`);
+    });
+
+  return command;
+}
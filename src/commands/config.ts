@@ -0,0 +1,42 @@
+import { Command } from 'commander';
+import { loadConfig, TOKEN_ENV_VARS } from '../lib/config.js';
+
+export function createConfigCommand(): Command {
+  const command = new Command('config')
+    .description('Inspect configuration files and profiles');
+
+  command
+    .command('show')
+    .description('Print the resolved configuration (config files plus profile)')
+    .action((_options, subcommand: Command) => {
+      const { config, profile } = subcommand.optsWithGlobals();
+      const resolved = loadConfig({ config, profile });
+      console.log(JSON.stringify(resolved, null, 2));
+    });
+
+  command
+    .command('profiles')
+    .description('List the profiles defined in the config files')
+    .action((_options, subcommand: Command) => {
+      const { config } = subcommand.optsWithGlobals();
+      const resolved = loadConfig({ config });
+      if (resolved.profiles.length === 0) {
+        console.log('No profiles defined');
+        return;
+      }
+      for (const name of resolved.profiles) {
+        console.log(name === resolved.profile ? `${name} (default)` : name);
+      }
+    });
+
+  command
+    .command('env')
+    .description('Show which token environment variables are set')
+    .action(() => {
+      for (const [option, envVar] of Object.entries(TOKEN_ENV_VARS)) {
+        console.log(`${envVar} (${option}): ${process.env[envVar] ? 'set' : 'not set'}`);
+      }
+    });
+
+  return command;
+}
@@ -0,0 +1,58 @@
+import { Command } from 'commander';
+import { writeFileSync } from 'fs';
+import { formatOutput, assertOutputFormat } from '../lib/output-formatter.js';
+import { formatResume, ResumeFormat } from '../lib/resume-exporter.js';
+import { DEFAULT_LOG_FILE, loadCareerLog } from './options.js';
+
+interface ExportOptions {
+  format: string;
+  output?: string;
+  resume?: string;
+  maxBullets: string;
+  minConfidence?: string;
+  position?: string;
+}
+
+export function createExportCommand(): Command {
+  return new Command('export')
+    .description('Export an existing career log to another format or as resume bullets')
+    .argument('[input]', 'Career log JSON file', DEFAULT_LOG_FILE)
+    .option('--format <json|md|csv|html|txt>', 'Output format', 'md')
+    .option('--resume <json-resume|latex|md>', 'Export ranked, deduplicated resume bullets instead')
+    .option('--max-bullets <number>', 'Maximum resume bullets per role', '5')
+    .option('--min-confidence <0-1>', 'Leave out entries below this confidence')
+    .option('--position <title>', 'Job title for JSON Resume work entries')
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .action((input: string, options: ExportOptions) => {
+      let output: string;
+
+      if (options.resume) {
+        const maxBullets = parseInt(options.maxBullets, 10);
+        if (isNaN(maxBullets) || maxBullets < 1) {
+          throw new Error(`--max-bullets must be a positive number (got "${options.maxBullets}")`);
+        }
+        let minConfidence: number | undefined;
+        if (options.minConfidence !== undefined) {
+          minConfidence = Number(options.minConfidence);
+          if (!options.minConfidence.trim() || isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+            throw new Error(`--min-confidence must be a number from 0 to 1 (got "${options.minConfidence}")`);
+          }
+        }
+        output = formatResume(loadCareerLog(input), options.resume as ResumeFormat, {
+          maxBullets,
+          minConfidence,
+          position: options.position,
+        });
+      } else {
+        const format = assertOutputFormat(options.format);
+        output = formatOutput(loadCareerLog(input), format);
+      }
+
+      if (options.output) {
+        writeFileSync(options.output, output, 'utf-8');
+        console.log(`Saved to ${options.output}`);
+      } else {
+        process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+      }
+    });
+}
@@ -0,0 +1,67 @@
+import { Command } from 'commander';
+import { generateCareerLog } from '../lib/generator.js';
+import { collect, getExplicitOptions } from './options.js';
+
+export function createGenerateCommand(): Command {
+  return new Command('generate')
+    .description('Generate a career log from git commits (default command)')
+    .argument('[repos...]', 'Git repository paths')
+    .option('-r, --repo <path>', 'Git repository path (repeat for multiple repositories)', collect)
+    .option('-w, --workspace <dir>', 'Directory to scan for git repositories (repeatable)', collect)
+    .option('-o, --output <file>', 'Output file path', 'career-log.json')
+    .option('-l, --limit <number>', 'Maximum commits to process', '100')
+    .option('-s, --since <date>', 'Only commits since date (ISO format)')
+    .option('-u, --until <date>', 'Only commits until date (ISO format)')
+    .option('-a, --author <identity>', 'Your name, email or "Name <email>"; repeat for every identity you commit under', collect)
+    .option('--mailmap <file>', 'Mailmap file mapping old names and emails to one identity (in addition to the repository\'s .mailmap)')
+    .option('--ticket-prefix <key>', 'Project key of your tickets, e.g. PAY for PAY-1234 (repeatable)', collect)
+    .option('--api-key <key>', 'API key for the LLM provider (enables AI enhancement with OpenAI by default)')
+    .option('--use-local-llm', 'Use local Ollama instance')
+    .option('--ollama-model <model>', 'Ollama model name', 'llama3.2')
+    .option('--llm-provider <openai|anthropic|ollama>', 'LLM provider for AI enhancement')
+    .option('--llm-model <model>', 'Model name (default depends on the provider)')
+    .option('--llm-url <url>', 'API base URL (OpenAI-compatible servers such as vLLM, LM Studio or Azure OpenAI; Ollama host)')
+    .option('--llm-api-version <version>', 'Azure OpenAI api-version')
+    .option('--llm-timeout <seconds>', 'Timeout per LLM request (default: 30, Ollama 120)')
+    .option('--llm-batch-size <number>', 'Commits per LLM request (structured JSON output)', '1')
+    .option('--prompt-preset <default|resume|manager-update|promo-packet>', 'Voice and length of AI achievements')
+    .option('--prompt-template <file>', 'Custom prompt template (text, or JSON/YAML with prompt and shape)')
+    .option('--llm-retries <number>', 'Retries for timeouts, rate limits and server errors', '2')
+    .option('--no-redact', 'Send commit text and diffs to the LLM without removing secrets and emails')
+    .option('--no-redact-emails', 'Keep email addresses in text sent to the LLM')
+    .option('--redact-pattern <regex>', 'Also redact matches of this regular expression (repeatable)', collect)
+    .option('--redaction-audit', 'Print every prompt exactly as it would be sent, without sending anything or writing the log')
+    .option('--enterprise', 'Enterprise mode (no external APIs, data-local)')
+    .option('--incremental', 'Only process commits newer than the existing output and merge them in')
+    .option('--skip-low-impact', 'Leave out the lower-ranked half of low-impact commits')
+    .option('--max-entries <number>', 'Keep only the highest-ranked achievements')
+    .option('--max-ai-calls <number>', 'Use AI for at most this many achievements (highest-ranked first)')
+    .option('--max-ai-cost <usd>', 'Stop using AI once the estimated cost would exceed this (USD)')
+    .option('--dry-run-cost', 'Estimate AI tokens and cost without sending anything or writing the log')
+    .option('--cluster', 'Group related commits (same PR, branch or feature) into one achievement')
+    .option('--cluster-window <hours>', 'Maximum gap between related commits on the same files (with --cluster)', '24')
+    .option('--confidence-threshold <0-1>', 'Minimum confidence for pattern matching', '0.5')
+    .option('--format <json|md|csv|html|txt>', 'Output format', 'json')
+    .option('--patterns <file>', 'Extra pattern pack (JSON or YAML) merged after the repo and user packs')
+    .option('--skip-pr', 'Skip PR parsing and only use commit messages')
+    .option('--pr-metadata <file>', 'Exported PR details (gh pr list --json, GitLab MRs, or JSON/YAML) used without network access')
+    .option('--github-token <token>', 'GitHub API token for fetching PR details')
+    .option('--gitlab-token <token>', 'GitLab API token for fetching PR details')
+    .option('--gitlab-url <url>', 'GitLab instance URL (default: https://gitlab.com)')
+    .option('--github-api-url <url>', 'GitHub API base URL (default: https://api.github.com, or https://<host>/api/v3 for GitHub Enterprise)')
+    .option('--git-host <host=platform>', 'Platform of a self-hosted git server, e.g. git.corp.com=gitlab (repeatable)', collect)
+    .option('--reviews', 'Add PRs you reviewed, approved or commented on as achievements (needs --github-token or --gitlab-token)')
+    .option('--review-user <username>', 'Reviewer whose activity --reviews collects (default: the token\'s user)')
+    .option('--remote <name>', 'Git remote whose host serves the PRs (default: origin, then upstream, then any other)')
+    .option('--concurrency <number>', 'Commits analyzed and sent to the LLM in parallel', '4')
+    .option('--no-cache', 'Ignore the analysis cache and recompute everything')
+    .option('--clear-cache', 'Delete cached analysis results before running')
+    .option('--cache-dir <dir>', 'Analysis cache directory (default: ~/.career-log/cache)')
+    .action(async (repos: string[], _options, command: Command) => {
+      const options = getExplicitOptions(command);
+      if (repos.length > 0) {
+        options.repo = [...repos, ...(options.repo || [])];
+      }
+      await generateCareerLog(options);
+    });
+}
@@ -0,0 +1,41 @@
+import { Command } from 'commander';
+import { readCareerLog } from '../lib/log-store.js';
+import { CareerLog } from '../lib/output-formatter.js';
+
+export const DEFAULT_LOG_FILE = 'career-log.json';
+
+/**
+ * Collect repeatable option values (e.g. --repo a --repo b)
+ */
+export function collect(value: string, previous: string[] = []): string[] {
+  return previous.concat([value]);
+}
+
+/**
+ * Options the user actually passed (including global ones), without commander
+ * defaults, so config files and profiles can fill in the rest
+ */
+export function getExplicitOptions(command: Command): Record<string, any> {
+  const options: Record<string, any> = {};
+  for (let current: Command | null = command; current; current = current.parent) {
+    const values = current.opts();
+    for (const key of Object.keys(values)) {
+      if (key in options || current.getOptionValueSource(key) === 'default') {
+        continue;
+      }
+      options[key] = values[key];
+    }
+  }
+  return options;
+}
+
+/**
+ * Read a career log for commands that work on existing output
+ */
+export function loadCareerLog(filePath: string = DEFAULT_LOG_FILE): CareerLog {
+  const log = readCareerLog(filePath);
+  if (!log) {
+    throw new Error(`Career log not found: ${filePath} (run "career-log generate" first)`);
+  }
+  return log;
+}
@@ -0,0 +1,45 @@
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { computeLogStats } from '../lib/log-stats.js';
+import { DEFAULT_LOG_FILE, loadCareerLog } from './options.js';
+
+/**
+ * Print the top entries of a count table
+ */
+function printCounts(title: string, counts: Record<string, number>, limit: number) {
+  const rows = Object.entries(counts).slice(0, limit);
+  if (rows.length === 0) {
+    return;
+  }
+  console.log('');
+  console.log(chalk.bold(title));
+  for (const [key, count] of rows) {
+    console.log(`  ${key}: ${count}`);
+  }
+}
+
+export function createStatsCommand(): Command {
+  return new Command('stats')
+    .description('Show statistics for an existing career log')
+    .argument('[input]', 'Career log JSON file', DEFAULT_LOG_FILE)
+    .option('--json', 'Print statistics as JSON')
+    .option('--top <number>', 'Rows to show per table', '10')
+    .action((input: string, options: { json?: boolean; top: string }) => {
+      const stats = computeLogStats(loadCareerLog(input));
+
+      if (options.json) {
+        console.log(JSON.stringify(stats, null, 2));
+        return;
+      }
+
+      const top = parseInt(options.top, 10) || 10;
+      console.log(`Achievements: ${stats.entries} (${stats.aiGenerated} AI-generated, ${stats.pinned} pinned)`);
+      console.log(`Commits: ${stats.totalCommits}`);
+      console.log(`Lines changed: ${stats.linesChanged}, files changed: ${stats.filesChanged}`);
+      console.log(`Average confidence: ${stats.averageConfidence}`);
+      console.log(`Impact: ${stats.impact.high} high, ${stats.impact.medium} medium, ${stats.impact.low} low`);
+      printCounts('Repositories', stats.byRepository, top);
+      printCounts('File types', stats.byFileType, top);
+      printCounts('Signals', stats.bySignal, top);
+    });
+}
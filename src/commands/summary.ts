@@ -0,0 +1,77 @@
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { writeFileSync } from 'fs';
+import { computeLogStats } from '../lib/log-stats.js';
+import { CareerLog } from '../lib/output-formatter.js';
+import {
+  summarizeByPeriod,
+  formatPeriodSummariesMarkdown,
+  formatPeriodSummariesJson,
+  SummaryPeriod,
+} from '../lib/period-summary.js';
+import { DEFAULT_LOG_FILE, loadCareerLog } from './options.js';
+
+interface SummaryOptions {
+  period?: string;
+  format: string;
+  highlights: string;
+  output?: string;
+}
+
+function printOverview(input: string, log: CareerLog): void {
+  const stats = computeLogStats(log);
+
+  console.log(chalk.bold(`Career log: ${input}`));
+  console.log(`Generated: ${log.generatedAt}`);
+  if (stats.firstDate && stats.lastDate) {
+    console.log(`Period: ${stats.firstDate.split('T')[0]} to ${stats.lastDate.split('T')[0]}`);
+  }
+  console.log(`Achievements: ${stats.entries} from ${stats.totalCommits} commits`);
+  console.log(`Impact: ${stats.impact.high} high, ${stats.impact.medium} medium, ${stats.impact.low} low`);
+
+  if (log.repositories && log.repositories.length > 1) {
+    console.log('');
+    for (const repo of log.repositories) {
+      console.log(`  ${repo.name}: ${repo.achievements} achievements (${repo.impact.high} high-impact)`);
+    }
+  }
+}
+
+export function createSummaryCommand(): Command {
+  return new Command('summary')
+    .description('Summarize an existing career log, optionally broken down by week, month, quarter or half-year')
+    .argument('[input]', 'Career log JSON file', DEFAULT_LOG_FILE)
+    .option('--period <week|month|quarter|half>', 'Report per period (weekly updates, quarterly or performance reviews)')
+    .option('--format <md|json>', 'Period report format', 'md')
+    .option('--highlights <number>', 'Top achievements listed per period', '3')
+    .option('-o, --output <file>', 'Write the period report to a file instead of stdout')
+    .action((input: string, options: SummaryOptions) => {
+      const log = loadCareerLog(input);
+
+      if (!options.period) {
+        printOverview(input, log);
+        return;
+      }
+
+      if (options.format !== 'md' && options.format !== 'json') {
+        throw new Error(`Unknown summary format "${options.format}" (expected one of: md, json)`);
+      }
+      const highlights = parseInt(options.highlights, 10);
+      if (isNaN(highlights) || highlights < 0) {
+        throw new Error(`--highlights must be zero or a positive number (got "${options.highlights}")`);
+      }
+
+      const period = options.period as SummaryPeriod;
+      const summaries = summarizeByPeriod(log, period, { highlights });
+      const output = options.format === 'json'
+        ? formatPeriodSummariesJson(summaries, period)
+        : formatPeriodSummariesMarkdown(summaries, period);
+
+      if (options.output) {
+        writeFileSync(options.output, output, 'utf-8');
+        console.log(`Saved to ${options.output}`);
+      } else {
+        process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+      }
+    });
+}
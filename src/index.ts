@@ -3,3 +3,24 @@ export * from './lib/git-parser.js';
 export * from './lib/impact-analyzer.js';
 export * from './lib/achievement-generator.js';
 export * from './lib/output-formatter.js';
+export * from './lib/repo-discovery.js';
+export * from './lib/log-store.js';
+export * from './lib/analysis-cache.js';
+export * from './lib/pattern-packs.js';
+export * from './lib/config.js';
+export * from './lib/log-stats.js';
+export * from './lib/resume-exporter.js';
+export * from './lib/period-summary.js';
+export * from './lib/commit-clusterer.js';
+export * from './lib/llm-provider.js';
+export * from './lib/prompt-templates.js';
+export * from './lib/worker-pool.js';
+export * from './lib/llm-pricing.js';
+export * from './lib/selection-policy.js';
+export * from './lib/redactor.js';
+export * from './lib/network-guard.js';
+export * from './lib/commit-message.js';
+export * from './lib/review-activity.js';
+export * from './lib/pr-metadata.js';
+export * from './lib/manual-entries.js';
+export * from './lib/identity.js';
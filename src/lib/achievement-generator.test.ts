@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { previewAIRequest, estimateAIRequest } from './achievement-generator.js';
+import { loadPromptTemplate } from './prompt-templates.js';
+import { createRedactor } from './redactor.js';
+import { estimateTokens } from './llm-provider.js';
+import { Commit } from './git-parser.js';
+import { DiffAnalysis } from './diff-analyzer.js';
+
+const commit: Commit = {
+  hash: '9fd891d3c0a5b7e2f4d6a8c1e3b5d7f9a1c3e5b7',
+  date: '2025-01-10T10:00:00Z',
+  message: 'Harden token refresh for billing',
+  author: 'Jane Doe',
+  files: ['src/acme-billing/auth.ts'],
+  insertions: 12,
+  deletions: 3,
+  diff: 'diff --git a/src/acme-billing/auth.ts b/src/acme-billing/auth.ts\n+const retries = 3;',
+};
+
+const analysis: DiffAnalysis = {
+  impactLevel: 'high',
+  signals: ['Critical file modified: src/acme-billing/auth.ts', 'Critical keyword found: auth'],
+  fileTypes: ['.ts'],
+  changeMetrics: { totalLines: 15, filesModified: 1, criticalFilesModified: 1 },
+};
+
+describe('AI request prompts', () => {
+  const template = loadPromptTemplate();
+  const redactor = createRedactor({ patterns: ['acme'] });
+
+  it('redacts paths in signals like the rest of the prompt', async () => {
+    const request = await previewAIRequest({ ...commit }, '.', analysis, template, { skipPR: true, redactor });
+
+    expect(request!.prompt).not.toMatch(/acme/i);
+    expect(request!.prompt).toContain('Critical file modified: src/[REDACTED:custom]-billing/auth.ts');
+    expect(request!.prompt).toContain('Critical keyword found: auth');
+  });
+
+  it('sends signals as they are without a redactor', async () => {
+    const request = await previewAIRequest({ ...commit }, '.', analysis, template, { skipPR: true });
+
+    expect(request!.prompt).toContain('Critical file modified: src/acme-billing/auth.ts');
+    expect(request!.redactions).toEqual({});
+  });
+
+  it('estimates from the prompt that is sent', async () => {
+    const request = await previewAIRequest({ ...commit }, '.', analysis, template, { skipPR: true, redactor });
+    const estimate = estimateAIRequest({ ...commit }, analysis, template, redactor);
+
+    expect(estimate.inputTokens).toBe(estimateTokens(`${request!.system}${request!.prompt}`));
+  });
+});
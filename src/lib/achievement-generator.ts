@@ -1,6 +1,13 @@
 import { Commit } from './git-parser.js';
 import { DiffAnalysis } from './diff-analyzer.js';
-import { isCommitMessageHelpful, getPRInfo } from './pr-parser.js';
+import { isCommitMessageHelpful, getPRInfo, PRInfo, RepoPlatform } from './pr-parser.js';
+import { PRMetadata } from './pr-metadata.js';
+import { AnalysisCache } from './analysis-cache.js';
+import { getDefaultPatterns, PatternSet } from './pattern-packs.js';
+import { LLMProvider, resolveLLMProvider, getProviderCacheSettings, estimateTokens } from './llm-provider.js';
+import { PromptTemplate, loadPromptTemplate, buildPromptValues, renderPrompt, validateAchievementText } from './prompt-templates.js';
+import { Redactor, RedactionCounts, createRedactor, addRedactionCounts } from './redactor.js';
+import { isNetworkGuardError } from './network-guard.js';
 import simpleGit, { SimpleGit } from 'simple-git';
 
 export interface AchievementResult {
@@ -8,99 +15,96 @@ export interface AchievementResult {
   confidence: number;
   aiGenerated?: boolean;
   dataLocal?: boolean;
+  component?: string;
+  // Fetched pull/merge request details, when the commit references one
+  pr?: PRInfo;
 }
 
-// Component detection patterns
-const COMPONENT_PATTERNS: Record<string, RegExp[]> = {
-  auth: [/auth/i, /authentication/i, /login/i, /session/i, /jwt/i, /oauth/i, /token/i],
-  API: [/api/i, /endpoint/i, /route/i, /controller/i, /handler/i],
-  database: [/database/i, /db/i, /sql/i, /query/i, /migration/i, /schema/i, /model/i],
-  UI: [/ui/i, /component/i, /view/i, /page/i, /screen/i, /\.tsx$/i, /\.jsx$/i, /\.vue$/i],
-  frontend: [/frontend/i, /client/i, /\.html$/i, /\.css$/i, /\.scss$/i],
-  backend: [/backend/i, /server/i, /service/i, /\.py$/i, /\.java$/i],
-  testing: [/test/i, /spec/i, /\.test\./i, /\.spec\./i, /__tests__/i],
-  security: [/security/i, /encryption/i, /vulnerability/i, /sanitize/i, /validate/i],
-  performance: [/performance/i, /optimize/i, /cache/i, /speed/i, /latency/i],
-  config: [/config/i, /\.env/i, /\.yaml$/i, /\.yml$/i, /\.json$/i],
-  infrastructure: [/docker/i, /kubernetes/i, /deploy/i, /ci\/cd/i, /\.github\/workflows/i],
+// Built-in templates for achievement patterns whose phrasing needs logic.
+// Keywords live in the pattern packs; a pack template string overrides these.
+type TemplateFunction = (component: string, action?: string, files?: number) => string;
+
+const BUILTIN_TEMPLATES: Record<string, TemplateFunction> = {
+  performance: (component: string, action?: string) => {
+    const componentLower = component.toLowerCase();
+    const isPerformanceComponent = componentLower.includes('performance');
+    
+    // Avoid redundancy: if component already contains "performance" and action is "optimizing"
+    if (isPerformanceComponent && action === 'optimizing') {
+      return `Optimized ${component}`;
+    }
+    
+    // Avoid redundancy: if action is "optimizing", use a different phrasing
+    if (action === 'optimizing') {
+      return `Optimized ${component} performance`;
+    }
+    
+    // Use specific actions when available
+    if (action && action !== 'optimizing') {
+      return `Optimized ${component} by ${action}`;
+    }
+    
+    // Default fallback - avoid adding "performance" if component already has it
+    if (isPerformanceComponent) {
+      return `Improved ${component}`;
+    }
+    
+    return `Improved ${component} performance`;
+  },
 };
 
-// Action keywords
-const ACTION_KEYWORDS: Record<string, string[]> = {
-  optimize: ['optimize', 'optimization', 'performance', 'cache', 'speed', 'latency', 'efficiency'],
-  implement: ['implement', 'add', 'create', 'build', 'introduce', 'feature'],
-  fix: ['fix', 'resolve', 'solve', 'bug', 'error', 'issue', 'patch'],
-  enhance: ['enhance', 'improve', 'upgrade', 'refine', 'polish'],
-  refactor: ['refactor', 'restructure', 'reorganize', 'cleanup'],
-  test: ['test', 'testing', 'coverage', 'spec', 'assert'],
-  secure: ['secure', 'security', 'encrypt', 'sanitize', 'validate', 'auth'],
+// Conventional Commit types mapped to an achievement pattern and a pattern pack
+// action. perf keeps the detected action ("implementing caching").
+const CONVENTIONAL_ACHIEVEMENTS: Record<string, { pattern?: string; action?: string }> = {
+  feat: { pattern: 'feature', action: 'implement' },
+  fix: { pattern: 'bugfix', action: 'fix' },
+  perf: { pattern: 'performance' },
+  test: { pattern: 'testing', action: 'test' },
+  tests: { pattern: 'testing', action: 'test' },
+  security: { pattern: 'security', action: 'secure' },
+  refactor: { action: 'refactor' },
 };
 
-// Pattern rules for achievement generation
-type TemplateFunction = (component: string, action?: string, files?: number) => string;
+// Bumped when PRInfo gains fields, so cached PRs are fetched again
+const PR_INFO_CACHE_SETTINGS = { version: 2 };
 
-const ACHIEVEMENT_PATTERNS: Record<string, {
-  keywords: string[];
-  template: TemplateFunction;
-}> = {
-  performance: {
-    keywords: ['performance', 'optimize', 'cache', 'speed', 'latency'],
-    template: (component: string, action?: string) => {
-      const componentLower = component.toLowerCase();
-      const isPerformanceComponent = componentLower.includes('performance');
-      
-      // Avoid redundancy: if component already contains "performance" and action is "optimizing"
-      if (isPerformanceComponent && action === 'optimizing') {
-        return `Optimized ${component}`;
-      }
-      
-      // Avoid redundancy: if action is "optimizing", use a different phrasing
-      if (action === 'optimizing') {
-        return `Optimized ${component} performance`;
-      }
-      
-      // Use specific actions when available
-      if (action && action !== 'optimizing') {
-        return `Optimized ${component} by ${action}`;
-      }
-      
-      // Default fallback - avoid adding "performance" if component already has it
-      if (isPerformanceComponent) {
-        return `Improved ${component}`;
-      }
-      
-      return `Improved ${component} performance`;
-    },
-  },
-  security: {
-    keywords: ['security', 'encrypt', 'vulnerability', 'auth', 'sanitize'],
-    template: (component: string) => `Enhanced security in ${component}`,
-  },
-  feature: {
-    keywords: ['implement', 'add', 'create', 'feature', 'introduce'],
-    template: (component: string, _action?: string, files?: number) => `Implemented ${component} feature affecting ${files || 0} modules`,
-  },
-  bugfix: {
-    keywords: ['fix', 'resolve', 'bug', 'error', 'issue'],
-    template: (component: string) => `Fixed ${component} bug`,
-  },
-  testing: {
-    keywords: ['test', 'testing', 'coverage', 'spec'],
-    template: (_component: string, action?: string) => `Improved code reliability with ${action || 'testing'}`,
-  },
-};
+/**
+ * Component named by a Conventional Commits scope: "feat(billing)" is Billing,
+ * short scopes like "api" are acronyms
+ */
+function getScopeComponent(commit: Commit): string | undefined {
+  const scope = commit.conventional?.scope;
+  if (!scope) {
+    return undefined;
+  }
+  return scope.length <= 3 ? scope.toUpperCase() : scope.charAt(0).toUpperCase() + scope.slice(1);
+}
+
+/**
+ * Render a pattern pack template such as "Fixed {component} bug"
+ */
+function renderTemplate(template: string, values: { component: string; action?: string; files?: number }): string {
+  return template
+    .replace(/\{component\}/g, values.component)
+    .replace(/\{action\}/g, values.action || '')
+    .replace(/\{files\}/g, String(values.files || 0));
+}
 
 /**
  * Extract component from files changed
  */
-function extractComponent(files: string[] = [], diffContent: string = ''): string {
+function extractComponent(
+  files: string[] = [],
+  diffContent: string = '',
+  patterns: PatternSet = getDefaultPatterns()
+): string {
   const combined = `${files.join(' ')} ${diffContent}`.toLowerCase();
   const componentScores: Record<string, number> = {};
 
   // Score components based on file paths and diff content
-  for (const [component, patterns] of Object.entries(COMPONENT_PATTERNS)) {
+  for (const [component, componentPatterns] of Object.entries(patterns.components)) {
     let score = 0;
-    for (const pattern of patterns) {
+    for (const pattern of componentPatterns) {
       // Check files
       score += files.filter(f => pattern.test(f)).length * 2;
       // Check diff content
@@ -127,10 +131,22 @@ function extractComponent(files: string[] = [], diffContent: string = ''): strin
   return 'System';
 }
 
+/**
+ * The commit's component: a conventional scope names it more reliably than
+ * file paths, which are the fallback
+ */
+function getComponent(commit: Commit, diffContent: string, patterns?: PatternSet): string {
+  return getScopeComponent(commit) || extractComponent(commit.files || [], diffContent, patterns);
+}
+
 /**
  * Extract action from commit message and diff content
  */
-function extractAction(commitMessage: string, diffContent: string = ''): string {
+function extractAction(
+  commitMessage: string,
+  diffContent: string = '',
+  patterns: PatternSet = getDefaultPatterns()
+): string {
   const combined = `${commitMessage} ${diffContent}`.toLowerCase();
 
   // More specific action detection from diff patterns (check these first for better specificity)
@@ -159,20 +175,10 @@ function extractAction(commitMessage: string, diffContent: string = ''): string
     return 'optimizing images';
   }
 
-  // Check for action keywords
-  for (const [action, keywords] of Object.entries(ACTION_KEYWORDS)) {
-    if (keywords.some(keyword => combined.includes(keyword))) {
-      // Return action in present participle form
-      const actionMap: Record<string, string> = {
-        optimize: 'optimizing',
-        implement: 'implementing',
-        fix: 'fixing',
-        enhance: 'enhancing',
-        refactor: 'refactoring',
-        test: 'testing',
-        secure: 'securing',
-      };
-      return actionMap[action] || action;
+  // Check for action keywords (labels are in present participle form)
+  for (const action of Object.values(patterns.actions)) {
+    if (action.keywords.some(keyword => combined.includes(keyword.toLowerCase()))) {
+      return action.label;
     }
   }
 
@@ -216,6 +222,11 @@ function cleanAchievementText(text: string): string {
  * Get diff content for analysis
  */
 async function getDiffContent(commit: Commit, repoPath: string): Promise<string> {
+  // Reuse the patch collected by the git log pass when available
+  if (commit.diff !== undefined) {
+    return commit.diff;
+  }
+
   try {
     const git: SimpleGit = simpleGit(repoPath);
     return await git.diff([`${commit.hash}^`, commit.hash]);
@@ -225,278 +236,530 @@ async function getDiffContent(commit: Commit, repoPath: string): Promise<string>
 }
 
 /**
- * Generate achievement using OpenAI GPT-3.5-turbo
+ * Wrap a validated AI statement as an achievement result
  */
-async function generateWithOpenAI(
+function toAIResult(provider: LLMProvider, achievement: string): AchievementResult {
+  return {
+    achievement: cleanAchievementText(achievement),
+    // Local models are usually smaller than hosted ones
+    confidence: provider.dataLocal ? 0.85 : 0.95,
+    aiGenerated: true,
+    dataLocal: provider.dataLocal,
+  };
+}
+
+/**
+ * Completion budget for one statement: roughly 3 characters per token, with
+ * room for the model to finish its sentence
+ */
+function getMaxTokens(template: PromptTemplate): number {
+  return Math.ceil(template.maxLength / 3) + 20;
+}
+
+export interface AchievementPrompt {
+  system: string;
+  prompt: string;
+  // What was replaced before the prompt was built
+  redactions: RedactionCounts;
+}
+
+/**
+ * Build the prompt for a commit. Messages, paths, PR text, signals and the
+ * diff are redacted first, and the diff in full, so a secret is never cut in
+ * half where the prompt truncates it.
+ */
+function buildAchievementPrompt(
+  template: PromptTemplate,
   commit: Commit,
   diffContent: string,
   diffAnalysis: DiffAnalysis,
-  apiKey: string
-): Promise<AchievementResult | null> {
-  try {
-    const prompt = `Analyze this git commit and generate a professional achievement statement (max 150 characters).
-
-Commit Message: ${commit.message}
-${commit.body ? `Commit Body: ${commit.body}` : ''}
-Files Changed: ${commit.files?.join(', ') || 'None'}
-Lines Changed: +${commit.insertions || 0} / -${commit.deletions || 0}
-Impact Level: ${diffAnalysis.impactLevel}
-Signals: ${diffAnalysis.signals.join(', ')}
-File Types: ${diffAnalysis.fileTypes.join(', ')}
-
-Diff Summary:
-${diffContent.substring(0, 2000)}...
-
-Generate a concise, professional achievement statement that:
-- Highlights the key accomplishment
-- Mentions the component/area affected
-- Is suitable for a resume or career log
-- Is maximum 150 characters
-
-Return only the achievement statement, no additional text.`;
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a professional career log generator. Generate concise, impactful achievement statements from git commits.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        max_tokens: 100,
-        temperature: 0.7,
-      }),
-    });
+  component: string,
+  redactor?: Redactor
+): AchievementPrompt {
+  if (!redactor) {
+    return { ...renderPrompt(template, buildPromptValues(commit, diffContent, diffAnalysis, component)), redactions: {} };
+  }
 
-    if (!response.ok) {
-      return null;
+  const redactions: RedactionCounts = {};
+  const redact = (text: string | undefined) => {
+    if (!text) {
+      return text;
     }
+    const result = redactor.redact(text);
+    addRedactionCounts(redactions, result.counts);
+    return result.text;
+  };
 
-    const data = await response.json() as any;
-    const achievement = data.choices?.[0]?.message?.content?.trim();
+  const redacted: Commit = {
+    ...commit,
+    message: redact(commit.message) || '',
+    body: redact(commit.body),
+    files: commit.files?.map(file => redact(file) || file),
+    prTitle: redact(commit.prTitle),
+    prDescription: redact(commit.prDescription),
+  };
+  // Signals name critical files and keywords
+  const analysis: DiffAnalysis = {
+    ...diffAnalysis,
+    signals: diffAnalysis.signals.map(signal => redact(signal) || signal),
+  };
+  const values = buildPromptValues(redacted, redact(diffContent) || '', analysis, component);
+  return { ...renderPrompt(template, values), redactions };
+}
 
-    if (achievement) {
-      return {
-        achievement: cleanAchievementText(achievement.substring(0, 150)),
-        confidence: 0.95,
-        aiGenerated: true,
-        dataLocal: false,
-      };
-    }
+/**
+ * The prompt generation sends for a commit, with the component it records;
+ * estimates and the redaction audit build theirs here too
+ */
+function buildCommitPrompt(
+  template: PromptTemplate,
+  commit: Commit,
+  diffContent: string,
+  diffAnalysis: DiffAnalysis,
+  patterns?: PatternSet,
+  redactor?: Redactor
+): AchievementPrompt {
+  return buildAchievementPrompt(template, commit, diffContent, diffAnalysis, getComponent(commit, diffContent, patterns), redactor);
+}
 
-    return null;
-  } catch (error) {
-    return null;
-  }
+/**
+ * Follow-up request after a response failed validation
+ */
+function buildCorrectionPrompt(prompt: string, response: string, problem: string): string {
+  return `${prompt}\n\nYour previous answer was:\n${response}\n\nIt was rejected because ${problem}. Reply again with only the achievement statement, following every requirement above.`;
 }
 
 /**
- * Generate achievement using local Ollama instance
+ * One request for several rendered prompts (--llm-batch-size)
  */
-async function generateWithOllama(
+function buildBatchPrompt(prompts: AchievementPrompt[]): AchievementPrompt {
+  const prompt = `You will receive ${prompts.length} separate requests, each inside <request id="N"> tags. Answer each one independently.
+
+${prompts.map((r, i) => `<request id="${i + 1}">\n${r.prompt}\n</request>`).join('\n\n')}
+
+Respond with only a JSON array containing one object per request, in this form:
+[{"id": 1, "achievement": "..."}, {"id": 2, "achievement": "..."}]`;
+  return {
+    system: prompts[0].system,
+    prompt,
+    redactions: prompts.reduce((total, r) => addRedactionCounts(total, r.redactions), {} as RedactionCounts),
+  };
+}
+
+/**
+ * Generate achievement with an LLM provider (hosted, OpenAI-compatible or local).
+ * A response that doesn't fit the template's shape gets one correction request.
+ */
+async function generateWithLLM(
+  provider: LLMProvider,
+  template: PromptTemplate,
   commit: Commit,
   diffContent: string,
   diffAnalysis: DiffAnalysis,
-  model: string = 'llama3.2',
-  ollamaUrl: string = 'http://localhost:11434'
+  component: string,
+  redactor?: Redactor
 ): Promise<AchievementResult | null> {
   try {
-    const prompt = `Analyze this git commit and generate a professional achievement statement (max 150 characters).
-
-Commit Message: ${commit.message}
-${commit.body ? `Commit Body: ${commit.body}` : ''}
-Files Changed: ${commit.files?.join(', ') || 'None'}
-Lines Changed: +${commit.insertions || 0} / -${commit.deletions || 0}
-Impact Level: ${diffAnalysis.impactLevel}
-Signals: ${diffAnalysis.signals.join(', ')}
-File Types: ${diffAnalysis.fileTypes.join(', ')}
-
-Diff Summary:
-${diffContent.substring(0, 2000)}...
-
-Generate a concise, professional achievement statement that:
-- Highlights the key accomplishment
-- Mentions the component/area affected
-- Is suitable for a resume or career log
-- Is maximum 150 characters
-- Avoids redundancy (e.g., don't say "Optimized X by optimizing" - say "Optimized X performance" instead)
-- Uses specific actions when possible (e.g., "implementing caching" instead of just "optimizing")
-
-Return only the achievement statement, no additional text.`;
-
-    const response = await fetch(`${ollamaUrl}/api/generate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: model,
-        prompt: prompt,
-        stream: false,
-        options: {
-          temperature: 0.7,
-          num_predict: 100,
-        },
-      }),
-    });
+    const { system, prompt } = buildAchievementPrompt(template, commit, diffContent, diffAnalysis, component, redactor);
+    const maxTokens = getMaxTokens(template);
+
+    let response = await provider.complete({ system, prompt, maxTokens, temperature: 0.7 });
+    let result = validateAchievementText(response, template);
+
+    if (result.problem) {
+      response = await provider.complete({
+        system,
+        prompt: buildCorrectionPrompt(prompt, response, result.problem),
+        maxTokens,
+        temperature: 0.3,
+      });
+      result = validateAchievementText(response, template);
+    }
 
-    if (!response.ok) {
-      return null;
+    return result.achievement ? toAIResult(provider, result.achievement) : null;
+  } catch (error) {
+    if (isNetworkGuardError(error)) {
+      throw error;
     }
+    // Provider unreachable or failing after retries - return null to fallback
+    return null;
+  }
+}
 
-    const data = await response.json() as any;
-    const achievement = data.response?.trim();
+interface BatchRequest {
+  commit: Commit;
+  diffContent: string;
+  diffAnalysis: DiffAnalysis;
+  component: string;
+  resolve: (result: AchievementResult | null) => void;
+  reject: (error: unknown) => void;
+}
+
+export interface AchievementBatcher {
+  generate(
+    commit: Commit,
+    diffContent: string,
+    diffAnalysis: DiffAnalysis,
+    component: string
+  ): Promise<AchievementResult | null>;
+}
 
-    if (achievement) {
-      return {
-        achievement: cleanAchievementText(achievement.substring(0, 150)),
-        confidence: 0.85,
-        aiGenerated: true,
-        dataLocal: true,
-      };
+// How long a partial batch waits for more requests before it is sent
+const BATCH_WAIT_MS = 25;
+
+/**
+ * Read `[{"id": 1, "achievement": "..."}]` from a batch response
+ */
+function parseBatchResponse(response: string): Map<number, string> {
+  const statements = new Map<number, string>();
+  const match = response.match(/\[[\s\S]*\]/);
+  if (!match) {
+    return statements;
+  }
+  try {
+    const items = JSON.parse(match[0]);
+    if (Array.isArray(items)) {
+      for (const item of items) {
+        if (typeof item?.id === 'number' && typeof item?.achievement === 'string') {
+          statements.set(item.id, item.achievement);
+        }
+      }
     }
+  } catch (error) {
+    // Malformed JSON - every request is retried on its own
+  }
+  return statements;
+}
 
-    return null;
+/**
+ * Generate achievements for several commits with one LLM request. Statements
+ * missing from the response or failing validation are requested individually.
+ */
+async function generateBatchWithLLM(
+  provider: LLMProvider,
+  template: PromptTemplate,
+  requests: Omit<BatchRequest, 'resolve' | 'reject'>[],
+  redactor?: Redactor
+): Promise<(AchievementResult | null)[]> {
+  if (requests.length === 1) {
+    const { commit, diffContent, diffAnalysis, component } = requests[0];
+    return [await generateWithLLM(provider, template, commit, diffContent, diffAnalysis, component, redactor)];
+  }
+
+  const { system, prompt } = buildBatchPrompt(requests.map(r =>
+    buildAchievementPrompt(template, r.commit, r.diffContent, r.diffAnalysis, r.component, redactor)));
+
+  let statements: Map<number, string>;
+  try {
+    const response = await provider.complete({
+      system,
+      prompt,
+      maxTokens: getMaxTokens(template) * requests.length + 50,
+      temperature: 0.7,
+    });
+    statements = parseBatchResponse(response);
   } catch (error) {
-    // Ollama not running or error - return null to fallback
+    if (isNetworkGuardError(error)) {
+      throw error;
+    }
+    // Provider unreachable or failing after retries - fall back for the whole batch
+    return requests.map(() => null);
+  }
+
+  return Promise.all(requests.map(async (r, i) => {
+    const result = validateAchievementText(statements.get(i + 1) || '', template);
+    if (result.achievement) {
+      return toAIResult(provider, result.achievement);
+    }
+    return generateWithLLM(provider, template, r.commit, r.diffContent, r.diffAnalysis, r.component, redactor);
+  }));
+}
+
+/**
+ * Collect concurrent AI requests into batches of up to `batchSize` commits
+ * per prompt. A partial batch is sent once no new request arrives for a moment.
+ */
+export function createAchievementBatcher(
+  provider: LLMProvider,
+  template: PromptTemplate,
+  batchSize: number,
+  redactor?: Redactor
+): AchievementBatcher {
+  let pending: BatchRequest[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const batch = pending;
+    pending = [];
+    if (batch.length > 0) {
+      generateBatchWithLLM(provider, template, batch, redactor)
+        .then(results => batch.forEach((request, i) => request.resolve(results[i])))
+        .catch(error => batch.forEach(request => isNetworkGuardError(error) ? request.reject(error) : request.resolve(null)));
+    }
+  };
+
+  return {
+    generate(commit, diffContent, diffAnalysis, component) {
+      return new Promise((resolve, reject) => {
+        pending.push({ commit, diffContent, diffAnalysis, component, resolve, reject });
+        if (pending.length >= batchSize) {
+          flush();
+        } else if (!timer) {
+          timer = setTimeout(flush, BATCH_WAIT_MS);
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Cache settings for an AI achievement: provider, model, prompt, redaction
+ * rules and clustered commits
+ */
+export function getAchievementCacheSettings(
+  provider: LLMProvider,
+  template: PromptTemplate,
+  commit: Commit,
+  redactor?: Redactor
+): Record<string, unknown> {
+  return {
+    ...getProviderCacheSettings(provider),
+    prompt: template.fingerprint,
+    redaction: redactor?.fingerprint,
+    commits: commit.commits,
+  };
+}
+
+export interface PRLookupOptions {
+  skipPR?: boolean;
+  githubToken?: string;
+  gitlabToken?: string;
+  gitlabUrl?: string;
+  githubApiUrl?: string;
+  prMetadata?: PRMetadata;
+  gitHosts?: Record<string, RepoPlatform>;
+  remote?: string;
+  cache?: AnalysisCache;
+}
+
+/**
+ * Look up the commit's PR (cache, then the metadata file or the API) and copy
+ * its title and description onto the commit for the prompt. `usePRTitle` is
+ * true when the PR stands in for an unhelpful commit message.
+ */
+async function resolvePR(
+  commit: Commit,
+  repoPath: string,
+  options: PRLookupOptions
+): Promise<{ prInfo?: PRInfo; usePRTitle: boolean }> {
+  // The PR title stands in for unhelpful commit messages; with a token the PR
+  // is also fetched for its review context. A PR metadata file is read even
+  // with --skip-pr, since it needs no network.
+  const prSource = !options.skipPR || !!options.prMetadata;
+  const usePRTitle = prSource && !isCommitMessageHelpful(commit.message) && !!commit.prNumber;
+  const fetchPR = prSource && !!commit.prNumber &&
+    (usePRTitle || !!options.prMetadata || !!options.githubToken || !!options.gitlabToken);
+  if (!fetchPR) {
+    return { usePRTitle };
+  }
+
+  // Try the cache, then fetch PR info if we have tokens
+  const prCacheSettings = { ...PR_INFO_CACHE_SETTINGS, metadata: options.prMetadata?.fingerprint };
+  let prInfo = options.cache?.get<PRInfo>(commit.hash, 'prInfo', prCacheSettings);
+  if (!prInfo) {
+    prInfo = await getPRInfo(
+      commit.message,
+      commit.body,
+      repoPath,
+      {
+        skipPR: options.skipPR,
+        githubToken: options.githubToken,
+        gitlabToken: options.gitlabToken,
+        gitlabUrl: options.gitlabUrl,
+        githubApiUrl: options.githubApiUrl,
+        gitHosts: options.gitHosts,
+        remote: options.remote,
+        prMetadata: options.prMetadata,
+      }
+    ) || undefined;
+    // Only cache fetched details; a bare number may be enriched once a token is added
+    if (prInfo?.title) {
+      options.cache?.set(commit.hash, 'prInfo', prInfo, prCacheSettings);
+    }
+  }
+
+  if (prInfo?.title) {
+    // Store in commit for the AI prompt
+    commit.prTitle = prInfo.title;
+    commit.prDescription = prInfo.description;
+    commit.prUrl = prInfo.url;
+  }
+  return { prInfo, usePRTitle };
+}
+
+export interface AIRequestPreview extends AchievementPrompt {
+  // Appended to the prompt if the answer is rejected (one correction request)
+  correction: string;
+}
+
+/**
+ * The request that would be sent for a commit, after redaction
+ * (--redaction-audit). PR details are looked up first, as in a real run, so
+ * their title and description appear in the prompt. Null when the commit
+ * needs no AI request because its PR title is used instead.
+ */
+export async function previewAIRequest(
+  commit: Commit,
+  repoPath: string,
+  diffAnalysis: DiffAnalysis,
+  template: PromptTemplate,
+  options: PRLookupOptions & { patterns?: PatternSet; redactor?: Redactor } = {}
+): Promise<AIRequestPreview | null> {
+  const { usePRTitle } = await resolvePR(commit, repoPath, options);
+  if (usePRTitle && commit.prTitle) {
     return null;
   }
+  const diffContent = await getDiffContent(commit, repoPath);
+  const request = buildCommitPrompt(template, commit, diffContent, diffAnalysis, options.patterns, options.redactor);
+  return {
+    ...request,
+    correction: buildCorrectionPrompt('', '<the rejected answer>', '<the validation problem>').trimStart(),
+  };
+}
+
+/**
+ * The single request that combines several previewed prompts (--llm-batch-size)
+ */
+export function previewAIBatch(requests: AchievementPrompt[]): AchievementPrompt {
+  return buildBatchPrompt(requests);
+}
+
+/**
+ * Estimate the token counts of the AI request for a commit, used for budgets
+ * and --dry-run-cost before anything is sent. The prompt is built like the
+ * real one, from the patch collected by the git log pass.
+ */
+export function estimateAIRequest(
+  commit: Commit,
+  diffAnalysis: DiffAnalysis,
+  template: PromptTemplate,
+  redactor?: Redactor,
+  patterns?: PatternSet
+): { inputTokens: number; outputTokens: number } {
+  const { system, prompt } = buildCommitPrompt(template, commit, commit.diff || '', diffAnalysis, patterns, redactor);
+  return {
+    inputTokens: estimateTokens(`${system}${prompt}`),
+    outputTokens: getMaxTokens(template),
+  };
 }
 
 export async function generateAchievement(
   commit: Commit,
   repoPath: string,
   diffAnalysis: DiffAnalysis,
-  options: {
+  options: PRLookupOptions & {
+    llm?: LLMProvider | null;
+    promptTemplate?: PromptTemplate;
+    batcher?: AchievementBatcher;
+    // Applied to everything sent to the LLM; null sends commits unredacted
+    redactor?: Redactor | null;
+    // False routes this commit to pattern generation (selection budget spent)
+    allowAI?: boolean;
     apiKey?: string;
     useLocalLlm?: boolean;
     ollamaModel?: string;
     enterprise?: boolean;
     confidenceThreshold?: number;
-    skipPR?: boolean;
-    githubToken?: string;
-    gitlabToken?: string;
-    gitlabUrl?: string;
+    patterns?: PatternSet;
   }
 ): Promise<AchievementResult> {
-  // Skip low-impact commits randomly to save API costs (50% chance)
-  const shouldSkipForAI = diffAnalysis.impactLevel === 'low' && 
-    (options.apiKey || options.useLocalLlm) && 
-    Math.random() < 0.5;
+  const cache = options.cache;
+  const patterns = options.patterns || getDefaultPatterns();
+  const llm = options.llm !== undefined ? options.llm : resolveLLMProvider(options);
+  const redactor = options.redactor !== undefined ? options.redactor || undefined : createRedactor();
+
+  // The component is recorded on every result so entries can be grouped by theme
+  const diffContent = await getDiffContent(commit, repoPath);
+  const component = getComponent(commit, diffContent, patterns);
+
+  const { prInfo, usePRTitle } = await resolvePR(commit, repoPath, options);
 
-  // Check if we should use PR info (when commit message is not helpful and PR exists)
-  const usePRInfo = !options.skipPR && !isCommitMessageHelpful(commit.message) && commit.prNumber;
-  
   let achievementText = '';
   let confidence = 0.75; // Default confidence for pattern-based
   let aiGenerated = false;
   let dataLocal = true; // Pattern-based is data-local
   
-  // Try PR info first (if not skipped for AI)
-  if (!shouldSkipForAI && usePRInfo) {
-    // Use PR title if already fetched
+  // Try PR info first
+  if (usePRTitle) {
     if (commit.prTitle) {
       achievementText = commit.prTitle;
       confidence = 0.9; // Higher confidence for PR titles
-    } else {
-      // Try to fetch PR info if we have tokens
-      const prInfo = await getPRInfo(
-        commit.message,
-        commit.body,
-        repoPath,
-        {
-          skipPR: options.skipPR,
-          githubToken: options.githubToken,
-          gitlabToken: options.gitlabToken,
-          gitlabUrl: options.gitlabUrl,
-        }
-      );
-      
-      if (prInfo?.title) {
-        achievementText = prInfo.title;
-        confidence = 0.9;
-        // Store in commit for future use
-        commit.prTitle = prInfo.title;
-        commit.prDescription = prInfo.description;
-        commit.prUrl = prInfo.url;
-      } else if (prInfo?.number) {
-        // PR number found but no title - use PR reference
-        achievementText = `PR #${prInfo.number}`;
-        confidence = 0.7;
-      }
+    } else if (prInfo?.number) {
+      // PR number found but no title - use PR reference
+      achievementText = `PR #${prInfo.number}`;
+      confidence = 0.7;
     }
   }
 
-  // Try AI enhancement if no achievement yet and not enterprise mode
-  if (!achievementText && !options.enterprise && !shouldSkipForAI) {
-    const diffContent = await getDiffContent(commit, repoPath);
-
-    // Try OpenAI first if API key provided
-    if (options.apiKey) {
-      const aiResult = await generateWithOpenAI(commit, diffContent, diffAnalysis, options.apiKey);
-      if (aiResult) {
-        return aiResult;
+  // Try AI enhancement if no achievement yet, not enterprise mode and within the AI budget
+  if (!achievementText && !options.enterprise && options.allowAI !== false) {
+    if (llm) {
+      const template = options.promptTemplate || loadPromptTemplate();
+      const settings = getAchievementCacheSettings(llm, template, commit, redactor);
+      const cached = cache?.get<AchievementResult>(commit.hash, 'achievement', settings);
+      if (cached) {
+        return { ...cached, component, pr: prInfo };
       }
-    }
-
-    // Try local LLM if enabled
-    if (options.useLocalLlm) {
-      const ollamaResult = await generateWithOllama(
-        commit,
-        diffContent,
-        diffAnalysis,
-        options.ollamaModel || 'llama3.2'
-      );
-      if (ollamaResult) {
-        return ollamaResult;
+      const aiResult = options.batcher
+        ? await options.batcher.generate(commit, diffContent, diffAnalysis, component)
+        : await generateWithLLM(llm, template, commit, diffContent, diffAnalysis, component, redactor);
+      if (aiResult) {
+        cache?.set(commit.hash, 'achievement', aiResult, settings);
+        return { ...aiResult, component, pr: prInfo };
       }
     }
   }
   
   // Fall back to pattern-based generation if PR not available or not helpful
   if (!achievementText) {
-    // Get diff content for analysis
-    const diffContent = await getDiffContent(commit, repoPath);
     const combinedText = `${commit.message} ${commit.body || ''} ${diffContent}`.toLowerCase();
     
-    // Extract component and action
-    const component = extractComponent(commit.files || [], diffContent);
-    const action = extractAction(commit.message, diffContent);
+    // The conventional type picks the pattern and action; keywords are the fallback
+    const conventional = commit.conventional ? CONVENTIONAL_ACHIEVEMENTS[commit.conventional.type] : undefined;
+    const action = (conventional?.action && patterns.actions[conventional.action]?.label) ||
+      extractAction(commit.message, diffContent, patterns);
     
     // Match against achievement patterns
     let matched = false;
+    const achievementPatterns = Object.entries(patterns.achievements)
+      .sort(([a], [b]) => Number(b === conventional?.pattern) - Number(a === conventional?.pattern));
     
-    for (const [patternType, pattern] of Object.entries(ACHIEVEMENT_PATTERNS)) {
-      if (pattern.keywords.some(keyword => combinedText.includes(keyword))) {
-        matched = true;
-        
-        switch (patternType) {
-          case 'performance':
-            achievementText = pattern.template(component, action);
-            break;
-          case 'security':
-            achievementText = pattern.template(component);
-            break;
-          case 'feature':
-            achievementText = pattern.template(component, undefined, diffAnalysis.changeMetrics.filesModified);
-            break;
-          case 'bugfix':
-            achievementText = pattern.template(component);
-            break;
-          case 'testing':
-            achievementText = pattern.template('System', action);
-            break;
+    for (const [patternType, pattern] of achievementPatterns) {
+      const typeMatch = patternType === conventional?.pattern;
+      if (typeMatch || pattern.keywords.some(keyword => combinedText.includes(keyword.toLowerCase()))) {
+        const values = {
+          // Testing achievements describe the whole system, not one component
+          component: patternType === 'testing' ? 'System' : component,
+          action,
+          files: diffAnalysis.changeMetrics.filesModified,
+        };
+
+        if (pattern.template) {
+          achievementText = renderTemplate(pattern.template, values);
+        } else if (BUILTIN_TEMPLATES[patternType]) {
+          achievementText = BUILTIN_TEMPLATES[patternType](values.component, values.action, values.files);
+        } else {
+          // Keywords without a template - keep looking for a pattern that can phrase it
+          continue;
         }
+        if (typeMatch) {
+          confidence = 0.8; // Declared by the author rather than guessed from keywords
+        }
+        matched = true;
         break;
       }
     }
@@ -525,5 +788,7 @@ export async function generateAchievement(
     confidence: confidence,
     aiGenerated: aiGenerated,
     dataLocal: dataLocal,
+    component,
+    pr: prInfo,
   };
 }
\ No newline at end of file
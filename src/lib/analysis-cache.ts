@@ -0,0 +1,160 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+// Bump when the shape of cached values changes to invalidate old entries
+const CACHE_VERSION = 1;
+
+export const DEFAULT_CACHE_DIR = join(homedir(), '.career-log', 'cache');
+
+export type CacheSection = 'diffAnalysis' | 'prInfo' | 'achievement';
+
+interface CachedValue {
+  settings: Record<string, unknown>;
+  value: unknown;
+  createdAt: string;
+}
+
+interface CacheFile {
+  version: number;
+  hash: string;
+  sections: Partial<Record<CacheSection, Record<string, CachedValue>>>;
+}
+
+export interface AnalysisCache {
+  enabled: boolean;
+  get<T>(hash: string, section: CacheSection, settings?: Record<string, unknown>): T | undefined;
+  set<T>(hash: string, section: CacheSection, value: T, settings?: Record<string, unknown>): void;
+}
+
+/**
+ * Stable key for the settings that produced a cached value
+ */
+export function getSettingsKey(settings: Record<string, unknown> = {}): string {
+  const sorted = Object.keys(settings)
+    .sort()
+    .reduce((acc, key) => {
+      if (settings[key] !== undefined) {
+        acc[key] = settings[key];
+      }
+      return acc;
+    }, {} as Record<string, unknown>);
+  return createHash('sha256').update(JSON.stringify(sorted)).digest('hex').substring(0, 16);
+}
+
+/**
+ * Path of the cache file for a commit (sharded by hash prefix)
+ */
+function getCacheFilePath(cacheDir: string, hash: string): string {
+  return join(cacheDir, hash.substring(0, 2), `${hash}.json`);
+}
+
+/**
+ * Open the on-disk analysis cache. Commits are immutable, so entries keyed by
+ * commit hash (plus the settings that produced them) never go stale.
+ */
+export function openAnalysisCache(
+  cacheDir: string = DEFAULT_CACHE_DIR,
+  options: { enabled?: boolean } = {}
+): AnalysisCache {
+  const enabled = options.enabled !== false;
+  const files = new Map<string, CacheFile>();
+
+  const load = (hash: string): CacheFile => {
+    const loaded = files.get(hash);
+    if (loaded) {
+      return loaded;
+    }
+
+    let file: CacheFile = { version: CACHE_VERSION, hash, sections: {} };
+    try {
+      const filePath = getCacheFilePath(cacheDir, hash);
+      if (existsSync(filePath)) {
+        const data = JSON.parse(readFileSync(filePath, 'utf-8'));
+        if (data?.version === CACHE_VERSION) {
+          file = data;
+        }
+      }
+    } catch (error) {
+      // Corrupt cache file - start over for this commit
+    }
+
+    files.set(hash, file);
+    return file;
+  };
+
+  return {
+    enabled,
+
+    get<T>(hash: string, section: CacheSection, settings: Record<string, unknown> = {}): T | undefined {
+      if (!enabled) {
+        return undefined;
+      }
+      const cached = load(hash).sections[section]?.[getSettingsKey(settings)];
+      return cached ? cached.value as T : undefined;
+    },
+
+    set<T>(hash: string, section: CacheSection, value: T, settings: Record<string, unknown> = {}): void {
+      if (!enabled) {
+        return;
+      }
+      const file = load(hash);
+      file.sections[section] = {
+        ...(file.sections[section] || {}),
+        [getSettingsKey(settings)]: {
+          settings,
+          value,
+          createdAt: new Date().toISOString(),
+        },
+      };
+
+      try {
+        const filePath = getCacheFilePath(cacheDir, hash);
+        mkdirSync(join(cacheDir, hash.substring(0, 2)), { recursive: true });
+        writeFileSync(filePath, JSON.stringify(file, null, 2), 'utf-8');
+      } catch (error) {
+        // A read-only cache directory shouldn't fail the run
+      }
+    },
+  };
+}
+
+/**
+ * Count cached commits and their size on disk
+ */
+export function getAnalysisCacheInfo(cacheDir: string = DEFAULT_CACHE_DIR): {
+  commits: number;
+  bytes: number;
+} {
+  const info = { commits: 0, bytes: 0 };
+  if (!existsSync(cacheDir)) {
+    return info;
+  }
+
+  for (const shard of readdirSync(cacheDir)) {
+    try {
+      for (const file of readdirSync(join(cacheDir, shard))) {
+        if (file.endsWith('.json')) {
+          info.commits++;
+          info.bytes += statSync(join(cacheDir, shard, file)).size;
+        }
+      }
+    } catch (error) {
+      // Not a shard directory
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Remove every cached entry, returning the number of commits that were cached
+ */
+export function clearAnalysisCache(cacheDir: string = DEFAULT_CACHE_DIR): number {
+  const { commits } = getAnalysisCacheInfo(cacheDir);
+  if (existsSync(cacheDir)) {
+    rmSync(cacheDir, { recursive: true, force: true });
+  }
+  return commits;
+}
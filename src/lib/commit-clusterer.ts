@@ -0,0 +1,232 @@
+import { Commit, MAX_PATCH_LENGTH } from './git-parser.js';
+import { DiffAnalysis } from './diff-analyzer.js';
+
+export interface ClusterOptions {
+  // Maximum gap between related commits touching the same files
+  windowHours?: number;
+  // Fraction of the smaller commit's files that must be shared
+  minFileOverlap?: number;
+}
+
+export interface CommitCluster {
+  // Combined commit used to generate the cluster's achievement
+  commit: Commit;
+  analysis: DiffAnalysis;
+  // Constituent commits, newest first
+  members: Commit[];
+}
+
+const IMPACT_RANK: Record<DiffAnalysis['impactLevel'], number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+/**
+ * Union-find over commit indices; clusters referencing different PRs are never joined
+ */
+function createClusterSets(commits: Commit[]) {
+  const parent = commits.map((_, i) => i);
+  const prNumbers = commits.map(c => c.prNumber);
+
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const union = (a: number, b: number): void => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) {
+      return;
+    }
+    if (prNumbers[rootA] && prNumbers[rootB] && prNumbers[rootA] !== prNumbers[rootB]) {
+      return;
+    }
+    parent[rootB] = rootA;
+    prNumbers[rootA] = prNumbers[rootA] || prNumbers[rootB];
+  };
+
+  return { find, union };
+}
+
+/**
+ * Share of the smaller file list that also appears in the other
+ */
+function getFileOverlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+  const [smaller, larger] = a.length <= b.length ? [a, b] : [b, a];
+  const largerSet = new Set(larger);
+  return smaller.filter(file => largerSet.has(file)).length / smaller.length;
+}
+
+function isMergeCommit(commit: Commit): boolean {
+  return (commit.parents?.length || 0) > 1;
+}
+
+function getLinesChanged(commit: Commit): number {
+  return (commit.insertions || 0) + (commit.deletions || 0);
+}
+
+/**
+ * Combine a cluster's commits into a single commit for achievement generation
+ */
+function combineCommits(members: Commit[]): Commit {
+  // Merge commits are diffed against their first parent, which repeats the
+  // branch's changes; only count them when the cluster has nothing else
+  const changes = members.some(c => !isMergeCommit(c))
+    ? members.filter(c => !isMergeCommit(c))
+    : members;
+
+  // Describe the cluster by its PR commit (merge or squash), else its largest change
+  const representative = members.find(c => c.prNumber)
+    || [...changes].sort((a, b) => getLinesChanged(b) - getLinesChanged(a))[0];
+
+  const otherMessages = members
+    .filter(c => c !== representative)
+    .map(c => `- ${c.message}`);
+  const body = [representative.body, otherMessages.join('\n')].filter(Boolean).join('\n\n');
+
+  const tickets = Array.from(new Set(members.flatMap(c => c.tickets || [])));
+  const issues = Array.from(new Set(members.flatMap(c => c.issues || [])));
+
+  let diff = '';
+  for (const commit of changes) {
+    if (diff.length >= MAX_PATCH_LENGTH) {
+      break;
+    }
+    diff += `${commit.diff || ''}\n`;
+  }
+
+  return {
+    ...representative,
+    date: members[0].date,
+    body: body || undefined,
+    files: Array.from(new Set(changes.flatMap(c => c.files || []))),
+    insertions: changes.reduce((sum, c) => sum + (c.insertions || 0), 0),
+    deletions: changes.reduce((sum, c) => sum + (c.deletions || 0), 0),
+    diff: diff.substring(0, MAX_PATCH_LENGTH),
+    tickets: tickets.length > 0 ? tickets : undefined,
+    issues: issues.length > 0 ? issues : undefined,
+    commits: members.map(c => c.hash),
+  };
+}
+
+/**
+ * Combine the diff analyses of a cluster: strongest impact, all signals and file types
+ */
+export function mergeDiffAnalyses(analyses: DiffAnalysis[], combined: Commit): DiffAnalysis {
+  const strongest = analyses.reduce((best, a) =>
+    IMPACT_RANK[a.impactLevel] > IMPACT_RANK[best.impactLevel] ? a : best);
+
+  return {
+    impactLevel: strongest.impactLevel,
+    signals: Array.from(new Set(analyses.flatMap(a => a.signals))),
+    fileTypes: Array.from(new Set(analyses.flatMap(a => a.fileTypes))),
+    changeMetrics: {
+      totalLines: getLinesChanged(combined),
+      filesModified: combined.files?.length || 0,
+      criticalFilesModified: Math.max(...analyses.map(a => a.changeMetrics.criticalFilesModified)),
+    },
+  };
+}
+
+/**
+ * Group related commits (same PR, same merged branch, or the same files
+ * touched by the same author in quick succession) into clusters.
+ * Commits and analyses are parallel arrays in git log order (newest first).
+ */
+export function clusterCommits(
+  commits: Commit[],
+  analyses: DiffAnalysis[],
+  options: ClusterOptions = {}
+): CommitCluster[] {
+  const windowMs = (options.windowHours ?? 24) * 60 * 60 * 1000;
+  const minFileOverlap = options.minFileOverlap ?? 0.5;
+  const { find, union } = createClusterSets(commits);
+  const indexByHash = new Map(commits.map((c, i) => [c.hash, i]));
+
+  // 1. Same PR number (merge commit, squash commit, commits mentioning the PR)
+  const firstByPR = new Map<number, number>();
+  commits.forEach((commit, i) => {
+    if (commit.prNumber) {
+      if (firstByPR.has(commit.prNumber)) {
+        union(firstByPR.get(commit.prNumber)!, i);
+      } else {
+        firstByPR.set(commit.prNumber, i);
+      }
+    }
+  });
+
+  // 2. Branch ancestry: a merge commit absorbs the commits it brought in,
+  // i.e. those reachable from its other parents but not on the first-parent trunk
+  const trunk = new Set<string>();
+  let trunkIndex = commits.length > 0 ? 0 : undefined;
+  while (trunkIndex !== undefined && !trunk.has(commits[trunkIndex].hash)) {
+    trunk.add(commits[trunkIndex].hash);
+    const firstParent = commits[trunkIndex].parents?.[0];
+    trunkIndex = firstParent ? indexByHash.get(firstParent) : undefined;
+  }
+
+  commits.forEach((commit, i) => {
+    if (!isMergeCommit(commit)) {
+      return;
+    }
+    const queue = commit.parents!.slice(1);
+    const seen = new Set<string>();
+    while (queue.length > 0) {
+      const hash = queue.shift()!;
+      const index = indexByHash.get(hash);
+      if (index === undefined || seen.has(hash) || trunk.has(hash)) {
+        continue;
+      }
+      seen.add(hash);
+      union(i, index);
+      queue.push(...(commits[index].parents || []));
+    }
+  });
+
+  // 3. Same author touching the same files within the time window
+  const byTime = commits
+    .map((commit, i) => ({ i, time: new Date(commit.date).getTime() }))
+    .filter(({ i, time }) => !isNaN(time) && !isMergeCommit(commits[i]))
+    .sort((a, b) => a.time - b.time);
+
+  for (let a = 0; a < byTime.length; a++) {
+    for (let b = a - 1; b >= 0 && byTime[a].time - byTime[b].time <= windowMs; b--) {
+      const current = commits[byTime[a].i];
+      const previous = commits[byTime[b].i];
+      if (current.author === previous.author &&
+          getFileOverlap(current.files || [], previous.files || []) >= minFileOverlap) {
+        union(byTime[a].i, byTime[b].i);
+      }
+    }
+  }
+
+  // Collect clusters, keeping git log order within and between them
+  const groups = new Map<number, number[]>();
+  commits.forEach((_, i) => {
+    const root = find(i);
+    const group = groups.get(root) || [];
+    group.push(i);
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.values()).map(indices => {
+    const members = indices.map(i => commits[i]);
+    if (members.length === 1) {
+      return { commit: members[0], analysis: analyses[indices[0]], members };
+    }
+    const combined = combineCommits(members);
+    return {
+      commit: combined,
+      analysis: mergeDiffAnalyses(indices.map(i => analyses[i]), combined),
+      members,
+    };
+  });
+}
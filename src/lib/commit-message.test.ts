@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { parseCommitMessage, parseConventionalSubject, parseTrailers, extractTickets, parseTicketPrefixes } from './commit-message.js';
+import { PR_REFERENCE_PATTERNS } from './pr-parser.js';
+
+describe('parseConventionalSubject', () => {
+  it('parses type, scope and the breaking marker', () => {
+    expect(parseConventionalSubject('feat(billing)!: add invoice export')).toEqual({
+      type: 'feat',
+      scope: 'billing',
+      breaking: true,
+      description: 'add invoice export',
+    });
+    expect(parseConventionalSubject('Fix: handle empty carts')).toMatchObject({ type: 'fix', breaking: false });
+  });
+
+  it('ignores subjects that only look conventional', () => {
+    expect(parseConventionalSubject('Note: this is temporary')).toBeUndefined();
+    expect(parseConventionalSubject('feat:missing space')).toBeUndefined();
+  });
+});
+
+describe('parseTrailers', () => {
+  it('reads the trailers of the last paragraph, with continuation lines', () => {
+    const body = 'Exports invoices as PDF.\n\nCo-authored-by: Bo <bo@example.com>\nRefs: PAY-1299\n  PAY-1300';
+    expect(parseTrailers(body)).toEqual([
+      { key: 'Co-authored-by', value: 'Bo <bo@example.com>' },
+      { key: 'Refs', value: 'PAY-1299 PAY-1300' },
+    ]);
+  });
+
+  it('needs every line of the paragraph to be a trailer', () => {
+    expect(parseTrailers('Reviewed-by: Al <al@example.com>\nand some prose')).toEqual([]);
+    expect(parseTrailers('Just a body line')).toEqual([]);
+    expect(parseTrailers()).toEqual([]);
+  });
+});
+
+describe('extractTickets', () => {
+  it('finds keys of the given projects, once each, in order', () => {
+    expect(extractTickets('OPS-7 blocks PAY-1234; see PAY-1234 and PAY-99', { prefixes: ['PAY', 'OPS'] }))
+      .toEqual(['OPS-7', 'PAY-1234', 'PAY-99']);
+  });
+
+  it('finds nothing without projects', () => {
+    expect(extractTickets('Fix PAY-1234')).toEqual([]);
+  });
+
+  it('ignores look-alikes from other projects', () => {
+    const text = 'Switch to GPT-4, drop COVID-19 banner, require NODE-18, use UTF-8 and SHA-256 for PAY-12';
+    expect(extractTickets(text, { prefixes: ['PAY'] })).toEqual(['PAY-12']);
+  });
+
+  it('skips text matched by PR references', () => {
+    expect(extractTickets('Fix login PR-12 for PR-7 tracking', { prefixes: ['PR'], ignore: PR_REFERENCE_PATTERNS }))
+      .toEqual([]);
+    expect(extractTickets('Fix login PR-12 for PAY-7', { prefixes: ['PR', 'PAY'], ignore: PR_REFERENCE_PATTERNS }))
+      .toEqual(['PAY-7']);
+  });
+});
+
+describe('parseTicketPrefixes', () => {
+  it('normalizes and validates project keys', () => {
+    expect(parseTicketPrefixes(['pay', 'OPS-'])).toEqual(['PAY', 'OPS']);
+    expect(parseTicketPrefixes(undefined)).toEqual([]);
+    expect(() => parseTicketPrefixes('PAY-1')).toThrow('Invalid ticket prefix "PAY-1"');
+  });
+});
+
+describe('parseCommitMessage', () => {
+  it('combines header, trailers and tickets', () => {
+    const parsed = parseCommitMessage(
+      'feat(billing): add invoice export',
+      'Exports invoices as PDF for PAY-1234.\n\nBREAKING CHANGE: the old CSV route is gone\nRefs: PAY-1299'
+    );
+    expect(parsed.conventional).toMatchObject({ type: 'feat', scope: 'billing', breaking: true });
+    expect(parsed.trailers.map(trailer => trailer.key)).toEqual(['BREAKING CHANGE', 'Refs']);
+    // PAY is known from the Refs trailer
+    expect(parsed.tickets).toEqual(['PAY-1234', 'PAY-1299']);
+  });
+
+  it('uses configured projects and leaves PR references to the PR parser', () => {
+    const options = { prefixes: ['OPS'], ignore: PR_REFERENCE_PATTERNS };
+    expect(parseCommitMessage('Fix login PR-12', undefined, options).tickets).toEqual([]);
+    expect(parseCommitMessage('Upgrade to GPT-4 for OPS-5', undefined, options).tickets).toEqual(['OPS-5']);
+    expect(parseCommitMessage('Upgrade to GPT-4 for OPS-5').tickets).toEqual([]);
+  });
+});
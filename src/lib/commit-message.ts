@@ -0,0 +1,156 @@
+export interface ConventionalCommit {
+  // Lowercased type: feat, fix, perf, ...
+  type: string;
+  scope?: string;
+  // "!" after the type/scope, or a BREAKING CHANGE footer
+  breaking: boolean;
+  description: string;
+}
+
+export interface CommitTrailer {
+  key: string;
+  value: string;
+}
+
+export interface TicketOptions {
+  // Project keys whose tickets are recorded, e.g. ["PAY", "OPS"]
+  prefixes?: string[];
+  // Text that is not a ticket, such as PR references ("PR-12")
+  ignore?: RegExp[];
+}
+
+export interface ParsedCommitMessage {
+  conventional?: ConventionalCommit;
+  trailers: CommitTrailer[];
+  tickets: string[];
+}
+
+// Types from the Conventional Commits spec and its common extensions; other
+// "Word: text" subjects are not treated as conventional
+export const CONVENTIONAL_TYPES = [
+  'feat', 'fix', 'perf', 'refactor', 'test', 'tests', 'docs', 'style',
+  'build', 'ci', 'chore', 'revert', 'security', 'deps',
+];
+
+const CONVENTIONAL_HEADER = /^([A-Za-z]+)(?:\(([^()]+)\))?(!)?:\s+(.+)$/;
+
+// "Key: value" footer lines (git trailers), plus the spec's "BREAKING CHANGE:"
+const TRAILER_LINE = /^(BREAKING CHANGE|[A-Za-z][A-Za-z0-9-]*)\s*:\s+(.+)$/;
+
+// Jira-style keys like PAY-1234
+const TICKET_PATTERN = /\b([A-Z][A-Z0-9]{1,9})-[1-9]\d{0,6}\b/g;
+const TICKET_PREFIX = /^[A-Z][A-Z0-9]{1,9}$/;
+
+// Trailers that name tickets ("Refs: PAY-1299"); their project keys are known
+// for the rest of the message
+const TICKET_TRAILERS = ['refs', 'ref', 'references', 'jira', 'ticket', 'tickets', 'issue', 'issues', 'fixes', 'closes', 'resolves'];
+
+/**
+ * Parse a Conventional Commits subject such as "feat(billing)!: add invoices"
+ */
+export function parseConventionalSubject(subject: string): ConventionalCommit | undefined {
+  const match = subject.trim().match(CONVENTIONAL_HEADER);
+  if (!match || !CONVENTIONAL_TYPES.includes(match[1].toLowerCase())) {
+    return undefined;
+  }
+  return {
+    type: match[1].toLowerCase(),
+    scope: match[2]?.trim() || undefined,
+    breaking: !!match[3],
+    description: match[4].trim(),
+  };
+}
+
+/**
+ * Read the trailers from the last paragraph of a commit body. Every line of
+ * that paragraph must be a trailer (or an indented continuation), as in git.
+ */
+export function parseTrailers(body?: string): CommitTrailer[] {
+  const paragraphs = (body || '').trim().split(/\n\s*\n/);
+  const lines = paragraphs[paragraphs.length - 1].split('\n');
+  const trailers: CommitTrailer[] = [];
+
+  for (const line of lines) {
+    const match = line.match(TRAILER_LINE);
+    if (match) {
+      trailers.push({ key: match[1], value: match[2].trim() });
+    } else if (/^\s+\S/.test(line) && trailers.length > 0) {
+      trailers[trailers.length - 1].value += ` ${line.trim()}`;
+    } else {
+      return [];
+    }
+  }
+  return trailers;
+}
+
+/**
+ * Validate project keys for tickets (--ticket-prefix); lowercase is accepted
+ */
+export function parseTicketPrefixes(values?: string | string[]): string[] {
+  return [values || []].flat().map(value => {
+    const prefix = value.trim().replace(/-$/, '').toUpperCase();
+    if (!TICKET_PREFIX.test(prefix)) {
+      throw new Error(`Invalid ticket prefix "${value}" (expected a project key such as PAY)`);
+    }
+    return prefix;
+  });
+}
+
+/**
+ * Ticket keys (e.g. PAY-1234) of the given projects mentioned in the text, in
+ * order of appearance. Keys of other projects are not tickets: "GPT-4",
+ * "COVID-19" and "UTF-8" look the same.
+ */
+export function extractTickets(text: string, options: TicketOptions = {}): string[] {
+  const prefixes = new Set(options.prefixes || []);
+  if (prefixes.size === 0) {
+    return [];
+  }
+  // Blank out ignored text, keeping offsets and word boundaries
+  let searched = text;
+  for (const pattern of options.ignore || []) {
+    const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+    searched = searched.replace(new RegExp(pattern.source, flags), match => ' '.repeat(match.length));
+  }
+
+  const tickets = new Set<string>();
+  for (const match of searched.matchAll(TICKET_PATTERN)) {
+    if (prefixes.has(match[1])) {
+      tickets.add(match[0]);
+    }
+  }
+  return Array.from(tickets);
+}
+
+/**
+ * Parse a commit's subject and body: conventional header, trailers and
+ * tickets. Tickets are those of the configured projects, plus projects named
+ * in ticket trailers such as "Refs: PAY-1299".
+ */
+export function parseCommitMessage(subject: string, body?: string, options: TicketOptions = {}): ParsedCommitMessage {
+  const conventional = parseConventionalSubject(subject);
+  const trailers = parseTrailers(body);
+  // The spec allows the footer anywhere after the body's first paragraph
+  if (conventional && /^BREAKING[ -]CHANGE:/m.test(body || '')) {
+    conventional.breaking = true;
+  }
+
+  const prefixes = new Set(options.prefixes || []);
+  for (const trailer of trailers.filter(trailer => TICKET_TRAILERS.includes(trailer.key.toLowerCase()))) {
+    for (const match of trailer.value.matchAll(TICKET_PATTERN)) {
+      prefixes.add(match[1]);
+    }
+  }
+  return {
+    conventional,
+    trailers,
+    tickets: extractTickets(`${subject}\n${body || ''}`, { ...options, prefixes: Array.from(prefixes) }),
+  };
+}
+
+/**
+ * The subject without its conventional "type(scope):" prefix
+ */
+export function getCommitDescription(subject: string): string {
+  return parseConventionalSubject(subject)?.description ?? subject.trim();
+}
@@ -0,0 +1,292 @@
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+// Config file names, checked in this order in the working directory and home directory
+const CONFIG_FILE_NAMES = [
+  '.careerlogrc',
+  '.careerlogrc.json',
+  '.careerlogrc.yaml',
+  '.careerlogrc.yml',
+  'career-log.config.json',
+];
+
+// Tokens are never stored in config files; they come from the CLI or these variables
+export const TOKEN_ENV_VARS = {
+  apiKey: 'CAREER_LOG_API_KEY',
+  githubToken: 'CAREER_LOG_GITHUB_TOKEN',
+  gitlabToken: 'CAREER_LOG_GITLAB_TOKEN',
+} as const;
+
+const stringOrList = z.union([z.string(), z.array(z.string())]);
+
+export const ConfigOptionsSchema = z.object({
+  repo: stringOrList.optional(),
+  workspace: stringOrList.optional(),
+  output: z.string().optional(),
+  limit: z.union([z.number().int().positive(), z.string()]).optional(),
+  since: z.string().optional(),
+  until: z.string().optional(),
+  // Identities you commit under; matched on name or email
+  author: stringOrList.optional(),
+  mailmap: z.string().optional(),
+  // Project keys of the tickets to record, e.g. PAY for PAY-1234
+  ticketPrefix: stringOrList.optional(),
+  format: z.string().optional(),
+  patterns: z.string().optional(),
+  incremental: z.boolean().optional(),
+  useLocalLlm: z.boolean().optional(),
+  ollamaModel: z.string().optional(),
+  llmProvider: z.enum(['openai', 'anthropic', 'ollama']).optional(),
+  llmModel: z.string().optional(),
+  llmUrl: z.string().optional(),
+  llmApiVersion: z.string().optional(),
+  llmTimeout: z.union([z.number().positive(), z.string()]).optional(),
+  llmRetries: z.union([z.number().int().min(0), z.string()]).optional(),
+  llmBatchSize: z.union([z.number().int().positive(), z.string()]).optional(),
+  promptPreset: z.string().optional(),
+  promptTemplate: z.string().optional(),
+  redact: z.boolean().optional(),
+  redactEmails: z.boolean().optional(),
+  redactPattern: stringOrList.optional(),
+  redactionAudit: z.boolean().optional(),
+  enterprise: z.boolean().optional(),
+  skipLowImpact: z.boolean().optional(),
+  maxEntries: z.union([z.number().int().min(0), z.string()]).optional(),
+  maxAiCalls: z.union([z.number().int().min(0), z.string()]).optional(),
+  maxAiCost: z.union([z.number().min(0), z.string()]).optional(),
+  dryRunCost: z.boolean().optional(),
+  // USD per million tokens, by model name (or prefix)
+  pricing: z.record(z.string(), z.object({
+    input: z.number().min(0),
+    output: z.number().min(0),
+  }).strict()).optional(),
+  cluster: z.boolean().optional(),
+  clusterWindow: z.union([z.number().positive(), z.string()]).optional(),
+  confidenceThreshold: z.union([z.number().min(0).max(1), z.string()]).optional(),
+  skipPr: z.boolean().optional(),
+  prMetadata: z.string().optional(),
+  gitlabUrl: z.string().optional(),
+  githubApiUrl: z.string().optional(),
+  // Self-hosted servers: { "git.corp.com": "gitlab" } or ["git.corp.com=gitlab"]
+  gitHost: z.union([stringOrList, z.record(z.string(), z.enum(['github', 'gitlab', 'bitbucket', 'azure', 'gitea']))]).optional(),
+  remote: z.string().optional(),
+  reviews: z.boolean().optional(),
+  reviewUser: z.string().optional(),
+  concurrency: z.union([z.number().int().positive(), z.string()]).optional(),
+  cache: z.boolean().optional(),
+  cacheDir: z.string().optional(),
+  verbose: z.boolean().optional(),
+}).strict();
+
+export const ConfigFileSchema = ConfigOptionsSchema.extend({
+  defaultProfile: z.string().optional(),
+  profiles: z.record(z.string(), ConfigOptionsSchema).optional(),
+}).strict();
+
+export type ConfigOptions = z.infer<typeof ConfigOptionsSchema>;
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+export interface ResolvedConfig {
+  files: string[];
+  profile?: string;
+  profiles: string[];
+  options: ConfigOptions;
+}
+
+// Options a repository's own config file sets for that repository in a
+// multi-repo run; everything else applies to the whole run
+export const REPOSITORY_OPTIONS = ['since', 'until', 'limit', 'author', 'mailmap', 'patterns', 'remote', 'gitHost', 'gitlabUrl', 'githubApiUrl', 'ticketPrefix'] as const;
+
+// Options holding paths, resolved relative to the config file that set them
+const PATH_OPTIONS = ['output', 'patterns', 'promptTemplate', 'cacheDir', 'prMetadata', 'mailmap'] as const;
+// Path options that also take a list
+const PATH_LIST_OPTIONS = ['repo', 'workspace'] as const;
+
+/**
+ * Resolve path options against the directory of the config file
+ */
+function resolvePaths(options: ConfigOptions, baseDir: string): ConfigOptions {
+  const resolved: ConfigOptions = { ...options };
+  const resolvePath = (value: string) =>
+    value === '~' || value.startsWith('~/')
+      ? join(homedir(), value.substring(1))
+      : resolve(baseDir, value);
+
+  for (const key of PATH_OPTIONS) {
+    const value = resolved[key];
+    if (value !== undefined) {
+      resolved[key] = resolvePath(value);
+    }
+  }
+  for (const key of PATH_LIST_OPTIONS) {
+    const value = resolved[key];
+    if (value !== undefined) {
+      resolved[key] = Array.isArray(value) ? value.map(resolvePath) : resolvePath(value);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Read and validate a config file (JSON or YAML)
+ */
+export function readConfigFile(filePath: string): ConfigFile {
+  let data: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser handles every supported file
+    data = parseYaml(readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Could not read config file ${filePath}: ${error.message}`);
+  }
+
+  const result = ConfigFileSchema.safeParse(data ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid config file ${filePath}: ${issues}`);
+  }
+
+  const baseDir = dirname(filePath);
+  const config = result.data;
+  return {
+    ...resolvePaths(config, baseDir),
+    defaultProfile: config.defaultProfile,
+    profiles: config.profiles
+      ? Object.fromEntries(Object.entries(config.profiles).map(([name, profile]) => [
+        name,
+        resolvePaths(profile, baseDir),
+      ]))
+      : undefined,
+  };
+}
+
+/**
+ * Find the first config file in a directory
+ */
+function findConfigFile(dirPath: string): string | null {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const filePath = join(dirPath, fileName);
+    if (existsSync(filePath)) {
+      return filePath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load the home-level config, then the working directory's, then the
+ * repository's (when it is elsewhere), then an explicit --config file, and
+ * apply the selected profile on top
+ */
+export function loadConfig(options: {
+  config?: string;
+  profile?: string;
+  cwd?: string;
+  repo?: string;
+} = {}): ResolvedConfig {
+  const files: string[] = [];
+
+  const directories = [homedir(), options.cwd || process.cwd(), ...(options.repo ? [resolve(options.repo)] : [])];
+  for (const dirPath of directories) {
+    const filePath = findConfigFile(dirPath);
+    if (filePath && !files.includes(filePath)) {
+      files.push(filePath);
+    }
+  }
+
+  if (options.config) {
+    const explicitConfig = resolve(options.config);
+    if (!existsSync(explicitConfig)) {
+      throw new Error(`Config file not found: ${explicitConfig}`);
+    }
+    files.push(explicitConfig);
+  }
+
+  let merged: ConfigOptions = {};
+  let defaultProfile: string | undefined;
+  const profiles: Record<string, ConfigOptions> = {};
+
+  for (const filePath of files) {
+    const { profiles: fileProfiles, defaultProfile: fileDefault, ...values } = readConfigFile(filePath);
+    merged = { ...merged, ...values };
+    defaultProfile = fileDefault || defaultProfile;
+    for (const [name, profile] of Object.entries(fileProfiles || {})) {
+      profiles[name] = { ...(profiles[name] || {}), ...profile };
+    }
+  }
+
+  const profile = options.profile || defaultProfile;
+  if (profile) {
+    if (!profiles[profile]) {
+      const available = Object.keys(profiles);
+      throw new Error(
+        `Unknown profile "${profile}"` +
+        (available.length > 0 ? ` (available: ${available.join(', ')})` : ' (no profiles defined)')
+      );
+    }
+    merged = { ...merged, ...profiles[profile] };
+  }
+
+  return {
+    files,
+    profile,
+    profiles: Object.keys(profiles),
+    options: merged,
+  };
+}
+
+/**
+ * Merge config files, profile and environment tokens under the CLI options.
+ * Only options explicitly passed on the command line should be in `cliOptions`.
+ * With `repoPath`, that repository's config file is read as well.
+ */
+export function resolveOptions(cliOptions: Record<string, any>, repoPath?: string): Record<string, any> {
+  const config = loadConfig({ config: cliOptions.config, profile: cliOptions.profile, repo: repoPath });
+
+  const options: Record<string, any> = { ...config.options };
+  for (const [key, value] of Object.entries(cliOptions)) {
+    if (value !== undefined) {
+      options[key] = value;
+    }
+  }
+
+  options.configFiles = config.files;
+  options.profile = config.profile;
+
+  // Environment tokens never switch on network features in enterprise mode
+  if (!options.enterprise) {
+    for (const [key, envVar] of Object.entries(TOKEN_ENV_VARS)) {
+      if (!options[key] && process.env[envVar]) {
+        options[key] = process.env[envVar];
+      }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Options for one repository of a multi-repo run: the run's options with the
+ * repository's config file applied to REPOSITORY_OPTIONS
+ */
+export function resolveRepositoryOptions(
+  cliOptions: Record<string, any>,
+  runOptions: Record<string, any>,
+  repoPath: string
+): Record<string, any> {
+  const repoOptions = resolveOptions(cliOptions, repoPath);
+  // A repository that asks for enterprise mode can't be processed without it
+  if (repoOptions.enterprise && !runOptions.enterprise) {
+    throw new Error(`${repoPath} requires enterprise mode (set in ${findConfigFile(resolve(repoPath))}); pass --enterprise`);
+  }
+
+  const options = { ...runOptions };
+  for (const key of REPOSITORY_OPTIONS) {
+    options[key] = repoOptions[key];
+  }
+  return options;
+}
@@ -1,5 +1,6 @@
 import { Commit } from './git-parser.js';
-import simpleGit, { SimpleGit } from 'simple-git';
+import simpleGit from 'simple-git';
+import { getDefaultPatterns, PatternSet } from './pattern-packs.js';
 
 export interface DiffAnalysis {
   impactLevel: 'high' | 'medium' | 'low';
@@ -12,25 +13,6 @@ export interface DiffAnalysis {
   };
 }
 
-// Critical file patterns
-const CRITICAL_FILE_PATTERNS = [
-  /package\.json$/i,
-  /package-lock\.json$/i,
-  /yarn\.lock$/i,
-  /dockerfile/i,
-  /docker-compose/i,
-  /\.dockerignore/i,
-  /migrations?/i,
-  /schema/i,
-  /auth/i,
-  /security/i,
-  /api/i,
-  /\.github\/workflows/i,
-  /\.env/i,
-  /config/i,
-  /\.config\./i,
-];
-
 // Critical keywords
 const CRITICAL_KEYWORDS = [
   'performance',
@@ -63,29 +45,11 @@ const PERFORMANCE_KEYWORDS = [
   'efficiency',
 ];
 
-// File type detection patterns
-const FILE_TYPE_PATTERNS: Record<string, RegExp[]> = {
-  TypeScript: [/\.tsx?$/i, /tsconfig/i],
-  JavaScript: [/\.jsx?$/i, /\.mjs$/i, /\.cjs$/i],
-  Python: [/\.py$/i, /requirements\.txt/i, /setup\.py/i],
-  Java: [/\.java$/i, /\.class$/i],
-  Go: [/\.go$/i, /go\.mod/i],
-  Rust: [/\.rs$/i, /Cargo\.toml/i],
-  Docker: [/dockerfile/i, /docker-compose/i, /\.dockerignore/i],
-  Tests: [/\.test\./i, /\.spec\./i, /__tests__/i, /test\//i, /tests\//i],
-  Config: [/\.config\./i, /\.env/i, /\.json$/i, /\.yaml$/i, /\.yml$/i],
-  CSS: [/\.css$/i, /\.scss$/i, /\.sass$/i, /\.less$/i],
-  HTML: [/\.html$/i, /\.htm$/i],
-  Markdown: [/\.md$/i, /\.markdown$/i],
-  SQL: [/\.sql$/i],
-  Shell: [/\.sh$/i, /\.bash$/i, /\.zsh$/i],
-};
-
 export async function analyzeDiff(
   commit: Commit,
-  repoPath: string
+  repoPath: string,
+  patterns: PatternSet = getDefaultPatterns()
 ): Promise<DiffAnalysis> {
-  const git: SimpleGit = simpleGit(repoPath);
   const signals: string[] = [];
   const fileTypes = new Set<string>();
   let totalLines = (commit.insertions || 0) + (commit.deletions || 0);
@@ -96,7 +60,7 @@ export async function analyzeDiff(
   if (commit.files) {
     for (const file of commit.files) {
       // Check for critical files
-      const isCritical = CRITICAL_FILE_PATTERNS.some((pattern) =>
+      const isCritical = patterns.criticalFiles.some((pattern) =>
         pattern.test(file)
       );
       if (isCritical) {
@@ -105,8 +69,8 @@ export async function analyzeDiff(
       }
 
       // Detect file types
-      for (const [type, patterns] of Object.entries(FILE_TYPE_PATTERNS)) {
-        if (patterns.some((pattern) => pattern.test(file))) {
+      for (const [type, typePatterns] of Object.entries(patterns.fileTypes)) {
+        if (typePatterns.some((pattern) => pattern.test(file))) {
           fileTypes.add(type);
           break;
         }
@@ -114,9 +78,9 @@ export async function analyzeDiff(
     }
   }
 
-  // Get actual diff content for deeper analysis
+  // Get actual diff content for deeper analysis (already collected by the git log pass)
   try {
-    const diff = await git.diff([`${commit.hash}^`, commit.hash]);
+    const diff = commit.diff ?? await simpleGit(repoPath).diff([`${commit.hash}^`, commit.hash]);
     const diffLower = diff.toLowerCase();
 
     // Check for critical keywords in diff
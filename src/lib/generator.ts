@@ -1,102 +1,554 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import { writeFileSync } from 'fs';
-import { resolve } from 'path';
-import { parseGitCommits } from './git-parser.js';
-import { generateAchievement } from './achievement-generator.js';
+import { parseGitCommits, Commit } from './git-parser.js';
+import { generateAchievement, createAchievementBatcher, estimateAIRequest, getAchievementCacheSettings, previewAIRequest, previewAIBatch, AIRequestPreview, AchievementPrompt, PRLookupOptions } from './achievement-generator.js';
 import { analyzeImpact } from './impact-analyzer.js';
-import { formatOutput, CareerLog, CareerLogEntry } from './output-formatter.js';
+import { openAnalysisCache, clearAnalysisCache, DEFAULT_CACHE_DIR } from './analysis-cache.js';
+import { DiffAnalysis } from './diff-analyzer.js';
+import { clusterCommits, CommitCluster } from './commit-clusterer.js';
+import { mapWithConcurrency, parseConcurrency } from './worker-pool.js';
+import { resolveOptions, resolveRepositoryOptions } from './config.js';
+import { resolveLLMProvider } from './llm-provider.js';
+import { getModelPrice, calculateCost, formatUsd } from './llm-pricing.js';
+import { selectCandidates } from './selection-policy.js';
+import { loadPromptTemplate } from './prompt-templates.js';
+import { createRedactor, addRedactionCounts, formatRedactionCounts, RedactionCounts } from './redactor.js';
+import { installNetworkGuard, createComplianceRecord, NetworkGuard } from './network-guard.js';
+import { parseGitHosts, PRInfo } from './pr-parser.js';
+import { loadPRMetadata } from './pr-metadata.js';
+import { formatIdentity } from './identity.js';
+import { parseTicketPrefixes } from './commit-message.js';
+import { loadPatternPacks, PatternSet } from './pattern-packs.js';
+import { resolveRepositories, getRepositoryNames } from './repo-discovery.js';
+import { readCareerLog, mergeCareerLogs, summarizeRepository, sortEntries, getCommitKeys, getEntryKey, hasCommit } from './log-store.js';
+import { fetchGitHubReviews, fetchGitLabReviews, createReviewEntries } from './review-activity.js';
+import { formatOutput, assertOutputFormat, CareerLog, CareerLogEntry, RepositorySummary } from './output-formatter.js';
 
-export async function generateCareerLog(options: any) {
+interface RepositoryWork {
+  repoName: string;
+  repoPath: string;
+  // The run's options with the repository's own config applied
+  options: any;
+  // How PRs are looked up, shared by the redaction audit and generation
+  prLookup: PRLookupOptions;
+  patterns?: PatternSet;
+  commits: Commit[];
+  clusters: CommitCluster[];
+}
+
+/**
+ * The previous log to merge into. Incremental runs always build on it; a full
+ * rebuild only needs it for pinned and manual entries, and otherwise simply
+ * overwrites the file (whatever it contains).
+ */
+function readExistingLog(outputPath: string, incremental: boolean): CareerLog | null {
+  if (incremental) {
+    return readCareerLog(outputPath);
+  }
+  let log: CareerLog | null = null;
   try {
-    const repoPath = options.repo ? resolve(options.repo) : process.cwd();
+    log = readCareerLog(outputPath);
+  } catch {
+    return null;
+  }
+  return log?.entries.some(entry => entry.pinned || entry.source === 'manual') ? log : null;
+}
+
+/**
+ * Parse an optional non-negative budget option
+ */
+function parseBudget(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const parsed = parseFloat(String(value));
+  if (isNaN(parsed) || parsed < 0) {
+    throw new Error(`${name} must be zero or a positive number (got "${value}")`);
+  }
+  return parsed;
+}
+
+/**
+ * PR details recorded on an entry; descriptions stay out of the log
+ */
+function toEntryPR(pr: PRInfo): CareerLogEntry['pr'] {
+  const { description, ...details } = pr;
+  return details;
+}
+
+/**
+ * Entries for the PRs the user reviewed on each platform with a token (--reviews)
+ */
+async function collectReviewEntries(
+  options: any,
+  limit: number,
+  concurrency: number,
+  patterns?: PatternSet,
+  onError?: (pr: string, error: Error) => void
+): Promise<CareerLogEntry[]> {
+  const reviewOptions = {
+    username: options.reviewUser,
+    since: options.since,
+    until: options.until,
+    limit,
+    concurrency,
+    onError,
+  };
+  const reviews = [
+    ...(options.githubToken
+      ? await fetchGitHubReviews({ ...reviewOptions, token: options.githubToken, apiUrl: options.githubApiUrl })
+      : []),
+    ...(options.gitlabToken
+      ? await fetchGitLabReviews({ ...reviewOptions, token: options.gitlabToken, apiUrl: options.gitlabUrl })
+      : []),
+  ];
+  return createReviewEntries(reviews, patterns);
+}
+
+export async function generateCareerLog(cliOptions: any) {
+  let options: any = cliOptions;
+  let guard: NetworkGuard | null = null;
+  try {
+    // Config files and profile first, explicit options on top
+    options = resolveOptions(cliOptions);
+
+    // A single repository's config file applies to the whole run; in a
+    // multi-repo run each repository's applies to its git options below
+    const repoPaths = resolveRepositories({ repo: options.repo, workspace: options.workspace });
+    if (repoPaths.length === 1) {
+      options = { ...resolveOptions(cliOptions, repoPaths[0]), repo: options.repo, workspace: options.workspace };
+    }
+
+    // Enterprise mode validation
+    if (options.enterprise) {
+      if (options.apiKey || options.useLocalLlm || options.llmProvider) {
+        throw new Error('--enterprise mode cannot be used with AI options');
+      }
+      if (options.reviews) {
+        throw new Error('--enterprise mode cannot be used with --reviews (it reads review activity from the GitHub or GitLab API)');
+      }
+      // Enterprise mode also skips PR parsing (no external APIs)
+      options.skipPr = true;
+      // Any network call from here on fails the run instead of leaking data
+      guard = installNetworkGuard();
+    }
+
+    if (options.reviews && !options.githubToken && !options.gitlabToken) {
+      throw new Error('--reviews needs --github-token or --gitlab-token');
+    }
+
+    // One provider for the whole run; null when AI enhancement is off
+    const llm = options.enterprise ? null : resolveLLMProvider(options);
+    const gitHosts = parseGitHosts(options.gitHost);
+    // Exported PR titles and labels, read locally (works with --skip-pr and --enterprise)
+    const prMetadata = options.prMetadata ? loadPRMetadata(options.prMetadata) : undefined;
+    const promptTemplate = loadPromptTemplate({ preset: options.promptPreset, templateFile: options.promptTemplate });
+    // Secrets and emails are scrubbed from everything sent to the LLM unless --no-redact
+    const redactor = llm && options.redact !== false
+      ? createRedactor({ emails: options.redactEmails !== false, patterns: [options.redactPattern || []].flat() })
+      : undefined;
+
+    // Commits analyzed (and achievements generated) in parallel; with batching,
+    // enough requests must be in flight at once to fill a batch
+    const concurrency = parseConcurrency(options.concurrency, '--concurrency', 4);
+    const batchSize = parseConcurrency(options.llmBatchSize, '--llm-batch-size', 1);
+    const batcher = llm && batchSize > 1 ? createAchievementBatcher(llm, promptTemplate, batchSize, redactor) : undefined;
+    const generationConcurrency = batcher ? Math.max(concurrency, batchSize) : concurrency;
+
+    const repoNames = getRepositoryNames(repoPaths);
+    const multiRepo = repoPaths.length > 1;
     
     // Debug logging
     if (options.verbose) {
-      console.log('Repo path resolved to:', repoPath);
-      console.log('Options received:', { repo: options.repo, since: options.since });
+      console.log('Config files:', options.configFiles, options.profile ? `(profile: ${options.profile})` : '');
+      console.log('Repo paths resolved to:', repoPaths);
+      if (llm) {
+        console.log('LLM provider:', llm.name, llm.model, llm.baseUrl, `(prompt: ${promptTemplate.source || promptTemplate.name})`);
+      }
+      console.log('Options received:', { repo: options.repo, workspace: options.workspace, since: options.since, until: options.until });
     }
     
     const outputPath = options.output || 'career-log.json';
     const limit = options.limit ? parseInt(options.limit.toString()) : 100;
-    const format = options.format || 'json';
+    const format = assertOutputFormat(options.format || 'json');
     const skipLowImpact = options.skipLowImpact || false;
+    const incremental = options.incremental || false;
+    const cluster = options.cluster || false;
+    const clusterWindow = options.clusterWindow ? parseFloat(options.clusterWindow.toString()) : 24;
 
-    // Step 1: Extract commits
-    console.log('Extracting commits from repository...');
-    const spinner1 = ora().start();
-    const commits = await parseGitCommits(repoPath, {
-      limit,
-      since: options.since,
-      author: options.author,
-    });
+    if (incremental && format !== 'json') {
+      throw new Error('Incremental mode requires JSON output (--format json)');
+    }
+
+    // Read the previous log so hand-edited and pinned entries survive this run
+    const existingLog = format === 'json' ? readExistingLog(outputPath, incremental) : null;
+    const existingKeys = new Set((incremental && existingLog ? existingLog.entries : []).flatMap(getCommitKeys));
+    const lastProcessed: Record<string, { commit: string; date: string }> = {};
+
+    // Cached analysis results keyed by commit hash
+    const cacheDir = options.cacheDir || DEFAULT_CACHE_DIR;
+    if (options.clearCache) {
+      const cleared = clearAnalysisCache(cacheDir);
+      console.log(`Cleared ${cleared} cached commit${cleared !== 1 ? 's' : ''} from ${cacheDir}`);
+    }
+    const cache = openAnalysisCache(cacheDir, { enabled: options.cache !== false });
+
+    // Repositories with commits to process, in order; generation waits until
+    // every repository is analyzed so budgets rank commits across all of them
+    const work: RepositoryWork[] = [];
+
+    for (const repoPath of repoPaths) {
+      const repoName = repoNames[repoPath];
+      const repoLabel = multiRepo ? ` (${repoName})` : '';
+      const repoOptions = multiRepo ? resolveRepositoryOptions(cliOptions, options, repoPath) : options;
+      const repoLimit = repoOptions.limit ? parseInt(repoOptions.limit.toString()) : 100;
+      const prLookup: PRLookupOptions = {
+        skipPR: options.skipPr,
+        githubToken: options.githubToken,
+        gitlabToken: options.gitlabToken,
+        gitlabUrl: repoOptions.gitlabUrl,
+        githubApiUrl: repoOptions.githubApiUrl,
+        prMetadata,
+        gitHosts: multiRepo ? parseGitHosts(repoOptions.gitHost) : gitHosts,
+        remote: repoOptions.remote,
+        cache,
+      };
+
+      // Step 1: Extract commits
+      console.log(`Extracting commits from repository${repoLabel}...`);
+      const spinner1 = ora().start();
+
+      // In incremental mode only look at commits after the last recorded one
+      const checkpoint = incremental ? existingLog?.lastProcessed?.[repoName] : undefined;
+      let since = repoOptions.since;
+      if (checkpoint && (!since || new Date(checkpoint.date) > new Date(since))) {
+        since = checkpoint.date;
+      }
+
+      // From a checkpoint, take the oldest new commits first: the checkpoint
+      // then only moves over commits that were processed, and a limit leaves
+      // the newer ones for the next run
+      const commits = await parseGitCommits(repoPath, {
+        limit: repoLimit,
+        since,
+        until: repoOptions.until,
+        author: repoOptions.author,
+        mailmap: repoOptions.mailmap,
+        ticketPrefixes: parseTicketPrefixes(repoOptions.ticketPrefix),
+        oldest: !!checkpoint,
+        exclude: incremental ? hash => hasCommit(existingKeys, repoName, hash) : undefined,
+      });
 
-    if (commits.length === 0) {
       spinner1.stop();
-      console.error(chalk.red('No commits found'));
-      process.exit(1);
+
+      if (checkpoint && commits.length >= repoLimit) {
+        console.log(chalk.yellow(`Reached --limit ${repoLimit} in ${repoName}; run again to add newer commits`));
+      }
+
+      if (commits.length === 0) {
+        if (checkpoint) {
+          console.log(chalk.yellow(`No new commits in ${repoName} since ${checkpoint.commit}`));
+          continue;
+        }
+        if (multiRepo || options.reviews) {
+          // One quiet repository shouldn't fail the whole workspace (or a review-only run)
+          console.log(chalk.yellow(`No commits found in ${repoName}, skipping`));
+          work.push({ repoName, repoPath, options: repoOptions, prLookup, commits, clusters: [] });
+          continue;
+        }
+        console.error(chalk.red('No commits found'));
+        process.exit(1);
+      }
+
+      // Pattern packs: package defaults, then the repository's, then the user's
+      const patterns = loadPatternPacks(repoPath, repoOptions.patterns);
+      if (options.verbose) {
+        console.log('Pattern packs:', patterns.sources);
+      }
+      const analysisSettings = { patterns: patterns.fingerprint };
+
+      // Step 2: Analyze impact signals
+      console.log(`Analyzing impact signals${repoLabel}...`);
+      const spinner2 = ora(`Analyzed 0/${commits.length} commits`).start();
+
+      const analyses = await mapWithConcurrency(commits, concurrency, async (commit) => {
+        let diffAnalysis = cache.get<DiffAnalysis>(commit.hash, 'diffAnalysis', analysisSettings);
+        if (!diffAnalysis) {
+          diffAnalysis = await analyzeImpact(commit, repoPath, patterns);
+          cache.set(commit.hash, 'diffAnalysis', diffAnalysis, analysisSettings);
+        }
+        return diffAnalysis;
+      }, (completed, total) => {
+        spinner2.text = `Analyzed ${completed}/${total} commits`;
+      });
+
+      spinner2.stop();
+
+      // Group commits of the same PR, branch or feature into one achievement
+      const clusters: CommitCluster[] = cluster
+        ? clusterCommits(commits, analyses, { windowHours: clusterWindow })
+        : commits.map((commit, i) => ({ commit, analysis: analyses[i], members: [commit] }));
+
+      work.push({ repoName, repoPath, options: repoOptions, prLookup, patterns, commits, clusters });
     }
 
-    spinner1.stop();
+    // Rank everything and apply the entry and AI budgets deterministically
+    const price = llm ? getModelPrice(llm, options.pricing) : null;
+    if (llm && options.maxAiCost !== undefined && !price) {
+      throw new Error(`No price known for model "${llm.model}"; add it under "pricing" in a config file, or use --max-ai-calls instead`);
+    }
+    const candidates = work.flatMap(({ repoName, patterns, clusters }) => clusters.map(({ commit, analysis, members }) => {
+      const estimate = llm ? estimateAIRequest(commit, analysis, promptTemplate, redactor, patterns) : undefined;
+      return {
+        key: `${repoName}:${commit.hash}`,
+        date: commit.date,
+        analysis,
+        commits: members.length,
+        estimate,
+        estimatedCost: estimate && price ? calculateCost(price, estimate.inputTokens, estimate.outputTokens) : undefined,
+        cachedAI: llm ? !!cache.get(commit.hash, 'achievement', getAchievementCacheSettings(llm, promptTemplate, commit, redactor)) : false,
+      };
+    }));
+    const decisions = selectCandidates(candidates, {
+      aiEnabled: !!llm,
+      skipLowImpact,
+      maxEntries: parseBudget(options.maxEntries, '--max-entries'),
+      maxAiCalls: parseBudget(options.maxAiCalls, '--max-ai-calls'),
+      maxAiCost: options.maxAiCost !== undefined ? parseBudget(options.maxAiCost, '--max-ai-cost') : undefined,
+    });
+
+    // Print every request as it would be sent, after redaction, without
+    // sending anything to the LLM. PR details are looked up first, as in a
+    // real run, because their title and description are part of the prompt.
+    if (options.redactionAudit) {
+      if (!llm) {
+        throw new Error('--redaction-audit needs an LLM provider (--api-key, --use-local-llm or --llm-provider)');
+      }
+      const total: RedactionCounts = {};
+      const previews: { label: string; request: AIRequestPreview }[] = [];
+      let prTitles = 0;
+      let index = 0;
+      for (const { repoName, repoPath, prLookup, patterns, clusters } of work) {
+        for (const { commit, analysis } of clusters) {
+          if (decisions[index++].ai !== 'granted') {
+            continue;
+          }
+          const label = `${multiRepo ? `${repoName} ` : ''}${commit.hash.substring(0, 8)}: ${commit.message}`;
+          const request = await previewAIRequest(commit, repoPath, analysis, promptTemplate, {
+            ...prLookup,
+            patterns,
+            redactor,
+          });
+          if (!request) {
+            prTitles++;
+            console.log('');
+            console.log(chalk.bold(`=== ${label}`) + chalk.gray(' (not sent: the PR title is used)'));
+            continue;
+          }
+          addRedactionCounts(total, request.redactions);
+          previews.push({ label, request });
+        }
+      }
+
+      // Batches are filled in the order commits finish; commit order is the closest preview
+      const batches: { label: string; request: AchievementPrompt }[] = [];
+      for (let i = 0; i < previews.length; i += batchSize) {
+        const batch = previews.slice(i, i + batchSize);
+        batches.push(batch.length === 1
+          ? batch[0]
+          : { label: batch.map(p => p.label).join('\n=== '), request: previewAIBatch(batch.map(p => p.request)) });
+      }
+      for (const { label, request } of batches) {
+        console.log('');
+        console.log(chalk.bold(`=== ${label}`) + chalk.gray(` (redacted: ${formatRedactionCounts(request.redactions)})`));
+        console.log(chalk.gray('--- system'));
+        console.log(request.system);
+        console.log(chalk.gray('--- prompt'));
+        console.log(request.prompt);
+      }
+      if (previews.length > 0) {
+        console.log('');
+        console.log(chalk.gray('--- correction: a rejected answer is sent back once, as the commit\'s own prompt followed by'));
+        console.log(previews[0].request.correction);
+      }
+
+      console.log('');
+      console.log(chalk.bold(`Redaction audit (${llm.name}, ${llm.model}) - nothing was sent to the LLM`));
+      console.log(`  Requests: ${batches.length}${batchSize > 1 ? ` (${previews.length} prompts in batches of up to ${batchSize})` : ''}, plus one correction per rejected answer`);
+      if (prTitles > 0) {
+        console.log(`  PR titles used instead: ${prTitles}`);
+      }
+      console.log(`  Redacted: ${redactor ? formatRedactionCounts(total) : 'redaction is off (--no-redact)'}`);
+      if (batchSize > 1) {
+        console.log(chalk.gray('  Batches are filled as commits finish, so a real run can group prompts differently; prompts missing from a batch answer are sent on their own.'));
+      }
+      return;
+    }
+
+    // Estimate what the AI step would cost, without sending anything
+    if (options.dryRunCost) {
+      if (!llm) {
+        throw new Error('--dry-run-cost needs an LLM provider (--api-key, --use-local-llm or --llm-provider)');
+      }
+      const requests = candidates.filter((_, i) => decisions[i].ai === 'granted');
+      const inputTokens = requests.reduce((sum, c) => sum + (c.estimate?.inputTokens || 0), 0);
+      const outputTokens = requests.reduce((sum, c) => sum + (c.estimate?.outputTokens || 0), 0);
+      const cached = decisions.filter(d => d.ai === 'cached').length;
+      const overBudget = decisions.filter(d => d.ai === 'over-budget').length;
+
+      console.log('');
+      console.log(chalk.bold(`Estimated AI cost (${llm.name}, ${llm.model}) - nothing was sent`));
+      console.log(`  Requests: up to ${requests.length}${cached > 0 ? ` (${cached} more already cached)` : ''}${overBudget > 0 ? `, ${overBudget} over budget` : ''}`);
+      console.log(`  Tokens: ~${inputTokens.toLocaleString('en-US')} input + up to ${outputTokens.toLocaleString('en-US')} output`);
+      console.log(price
+        ? `  Cost: up to ${formatUsd(calculateCost(price, inputTokens, outputTokens))}`
+        : `  Cost: unknown (no price for "${llm.model}"; add it under "pricing" in a config file)`);
+      console.log(chalk.gray('  Commits whose PR title is used need no AI request, so the actual count can be lower.'));
+      return;
+    }
 
-    // Step 2: Analyze impact signals
-    console.log('Analyzing impact signals...');
-    const spinner2 = ora().start();
     const entries: CareerLogEntry[] = [];
+    const repositories: RepositorySummary[] = [];
+    let totalCommits = 0;
+    let decisionIndex = 0;
 
-    for (const commit of commits) {
-      // Analyze diff for impact signals
-      const diffAnalysis = await analyzeImpact(commit, repoPath);
+    for (const { repoName, repoPath, options: repoOptions, prLookup, patterns, commits, clusters } of work) {
+      const repoLabel = multiRepo ? ` (${repoName})` : '';
+      const selected = clusters
+        .map(item => ({ ...item, decision: decisions[decisionIndex++] }))
+        .filter(({ decision }) => decision.keep);
 
-      // Skip low impact commits if requested
-      if (skipLowImpact && diffAnalysis.impactLevel === 'low' && Math.random() < 0.5) {
+      if (commits.length === 0) {
+        repositories.push(summarizeRepository(repoName, repoPath, 0, []));
         continue;
       }
 
-      const achievementResult = await generateAchievement(commit, repoPath, diffAnalysis, {
-        ...options,
-        skipPR: options.skipPr,
-        githubToken: options.githubToken,
-        gitlabToken: options.gitlabToken,
-        gitlabUrl: options.gitlabUrl,
-      });
+      // Step 3: Generate achievements
+      console.log(`Generating achievements${repoLabel}...`);
+      const spinner3 = ora(`Generated 0/${selected.length} achievements`).start();
 
-      entries.push({
-        date: commit.date,
-        achievement: achievementResult.achievement,
-        confidence: achievementResult.confidence,
-        aiGenerated: achievementResult.aiGenerated,
-        dataLocal: achievementResult.dataLocal,
-        impact: diffAnalysis.impactLevel,
-        commit: commit.hash.substring(0, 8),
-        filesChanged: commit.files?.length || 0,
-        linesChanged: (commit.insertions || 0) + (commit.deletions || 0),
-        signals: diffAnalysis.signals,
-        fileTypes: diffAnalysis.fileTypes,
-        changeMetrics: diffAnalysis.changeMetrics,
+      const repoEntries = await mapWithConcurrency(selected, generationConcurrency, async ({ commit, analysis: diffAnalysis, members, decision }) => {
+        const achievementResult = await generateAchievement(commit, repoPath, diffAnalysis, {
+          ...repoOptions,
+          llm,
+          promptTemplate,
+          batcher,
+          redactor: redactor || null,
+          allowAI: decision.ai !== 'over-budget',
+          ...prLookup,
+          patterns,
+        });
+
+        const entry: CareerLogEntry = {
+          date: commit.date,
+          achievement: achievementResult.achievement,
+          confidence: achievementResult.confidence,
+          aiGenerated: achievementResult.aiGenerated,
+          dataLocal: achievementResult.dataLocal,
+          impact: diffAnalysis.impactLevel,
+          commit: commit.hash.substring(0, 8),
+          ...(members.length > 1 ? { commits: members.map(c => c.hash.substring(0, 8)) } : {}),
+          repository: repoName,
+          component: achievementResult.component,
+          ...(commit.tickets ? { tickets: commit.tickets } : {}),
+          ...(commit.conventional?.breaking ? { breaking: true } : {}),
+          ...(commit.credit ? { identity: formatIdentity(commit.credit.identity) } : {}),
+          ...(commit.credit?.coAuthor ? { coAuthored: true } : {}),
+          ...(achievementResult.pr ? { pr: toEntryPR(achievementResult.pr) } : {}),
+          filesChanged: commit.files?.length || 0,
+          linesChanged: (commit.insertions || 0) + (commit.deletions || 0),
+          signals: diffAnalysis.signals,
+          fileTypes: diffAnalysis.fileTypes,
+          changeMetrics: diffAnalysis.changeMetrics,
+          selection: {
+            rank: decision.rank,
+            score: decision.score,
+            ...(decision.ai ? { ai: decision.ai } : {}),
+          },
+        };
+        return entry;
+      }, (completed, total) => {
+        spinner3.text = `Generated ${completed}/${total} achievements`;
       });
+
+      spinner3.stop();
+
+      // Commits come newest first from git log
+      lastProcessed[repoName] = {
+        commit: commits[0].hash.substring(0, 8),
+        date: commits[0].date,
+      };
+
+      entries.push(...repoEntries);
+      repositories.push(summarizeRepository(repoName, repoPath, commits.length, repoEntries));
+      totalCommits += commits.length;
     }
 
-    spinner2.stop();
+    // Step 4: PRs the user reviewed become achievements of their own
+    if (options.reviews) {
+      console.log('Collecting review activity...');
+      const spinner4 = ora().start();
+      const unreadable: string[] = [];
+      const reviewEntries = (await collectReviewEntries(options, limit, concurrency, work[0]?.patterns, (pr, error) => {
+        unreadable.push(`${pr} (${error.message})`);
+      }))
+        .filter(entry => !existingKeys.has(getEntryKey(entry)))
+        .filter(entry => !skipLowImpact || entry.impact !== 'low');
+      spinner4.stop();
+      for (const pr of unreadable) {
+        console.log(chalk.yellow(`Skipped reviewed PR ${pr}`));
+      }
+      entries.push(...reviewEntries);
+
+      // Reviewed projects are named by their full path (acme/api), so they never
+      // merge with a local checkout or a same-named project; each is listed by
+      // its web URL
+      for (const name of new Set(reviewEntries.map(entry => entry.repository || ''))) {
+        const url = reviewEntries.find(entry => entry.repository === name)?.pr?.url;
+        repositories.push(summarizeRepository(
+          name,
+          url?.replace(/\/(?:pull|-\/merge_requests)\/\d+$/, '') || name,
+          0,
+          reviewEntries.filter(entry => entry.repository === name)
+        ));
+      }
+    }
+
+    const dropped = {
+      lowImpact: decisions.filter(d => d.dropReason === 'low-impact').length,
+      maxEntries: decisions.filter(d => d.dropReason === 'max-entries').length,
+      overBudget: decisions.filter(d => d.ai === 'over-budget').length,
+    };
+
+    if (totalCommits === 0 && entries.length === 0) {
+      if (incremental && existingLog) {
+        console.log(chalk.green('✓') + ' ' + chalk.bold(`Career log is up to date: ${outputPath}`));
+        return;
+      }
+      console.error(chalk.red('No commits found'));
+      process.exit(1);
+    }
 
-    // Step 3: Generate achievements
-    console.log('Generating achievements...');
-    const spinner3 = ora().start();
-    
     // Create career log
-    const careerLog: CareerLog = {
+    let careerLog: CareerLog = {
       generatedAt: new Date().toISOString(),
-      repository: repoPath,
-      totalCommits: commits.length,
-      entries: entries.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+      repository: multiRepo ? repositories.map(r => r.name).join(', ') : repoPaths[0],
+      repositories,
+      totalCommits,
+      lastProcessed,
+      ...(guard ? { compliance: createComplianceRecord(guard, options) } : {}),
+      entries: sortEntries(entries),
     };
 
+    if (existingLog) {
+      careerLog = mergeCareerLogs(existingLog, careerLog, { incremental });
+    }
+
     // Format and write output
     const output = formatOutput(careerLog, format);
     writeFileSync(outputPath, output, 'utf-8');
 
-    spinner3.stop();
-
     // Calculate impact counts from generated entries
     const impactCounts = {
       high: entries.filter(e => e.impact === 'high').length,
@@ -107,8 +559,38 @@ export async function generateCareerLog(options: any) {
     // Display summary
     console.log('');
     console.log(chalk.green('✓') + ' ' + chalk.bold(`Generated ${entries.length} achievement${entries.length !== 1 ? 's' : ''}`));
+    if (existingLog) {
+      const kept = careerLog.entries.length - entries.length;
+      if (kept > 0) {
+        console.log(chalk.green('✓') + ' ' + chalk.bold(`Preserved ${kept} existing achievement${kept !== 1 ? 's' : ''}`));
+      }
+    }
+    if (dropped.lowImpact > 0) {
+      console.log(chalk.yellow(`Left out ${dropped.lowImpact} lower-ranked low-impact commit${dropped.lowImpact !== 1 ? 's' : ''} (--skip-low-impact)`));
+    }
+    if (dropped.maxEntries > 0) {
+      console.log(chalk.yellow(`Left out ${dropped.maxEntries} lower-ranked commit${dropped.maxEntries !== 1 ? 's' : ''} (--max-entries)`));
+    }
+    if (dropped.overBudget > 0) {
+      console.log(chalk.yellow(`Used pattern matching for ${dropped.overBudget} lower-ranked commit${dropped.overBudget !== 1 ? 's' : ''} (AI budget reached)`));
+    }
     console.log(chalk.green('✓') + ' ' + chalk.bold(`High-impact: ${impactCounts.high} achievement${impactCounts.high !== 1 ? 's' : ''}`));
     console.log(chalk.green('✓') + ' ' + chalk.bold(`Medium-impact: ${impactCounts.medium} achievement${impactCounts.medium !== 1 ? 's' : ''}`));
+    if (llm) {
+      const { requests, inputTokens, outputTokens, estimatedRequests } = llm.usage;
+      const cached = entries.filter(e => e.selection?.ai === 'cached').length;
+      const cost = price ? formatUsd(calculateCost(price, inputTokens, outputTokens)) : 'cost unknown';
+      console.log(chalk.green('✓') + ' ' + chalk.bold(`AI usage: ${requests} request${requests !== 1 ? 's' : ''}, ${inputTokens.toLocaleString('en-US')} input + ${outputTokens.toLocaleString('en-US')} output tokens, ${cost}`) +
+        ` (${llm.model}${cached > 0 ? `, ${cached} from cache` : ''}${estimatedRequests > 0 ? `, ${estimatedRequests} estimated` : ''})`);
+    }
+    if (multiRepo) {
+      for (const repo of repositories) {
+        console.log(chalk.green('✓') + ' ' + `${repo.name}: ${repo.achievements} achievement${repo.achievements !== 1 ? 's' : ''} from ${repo.totalCommits} commit${repo.totalCommits !== 1 ? 's' : ''} (${repo.impact.high} high-impact)`);
+      }
+    }
+    if (guard) {
+      console.log(chalk.green('✓') + ' ' + chalk.bold(`Enterprise mode: ${guard.attempts.length} external network calls`) + ' (compliance record in the output)');
+    }
     console.log(chalk.green('✓') + ' ' + chalk.bold(`Saved to ${outputPath}`));
   } catch (error: any) {
     console.error('');
@@ -118,5 +600,7 @@ export async function generateCareerLog(options: any) {
       console.error(error);
     }
     process.exit(1);
+  } finally {
+    guard?.uninstall();
   }
 }
\ No newline at end of file
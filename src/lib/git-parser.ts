@@ -1,19 +1,338 @@
-import simpleGit, { SimpleGit, LogResult } from 'simple-git';
-import { extractPRNumber } from './pr-parser.js';
+import { spawn, execFileSync } from 'child_process';
+import { existsSync } from 'fs';
+import { createInterface } from 'readline';
+import { extractReferences, PR_REFERENCE_PATTERNS } from './pr-parser.js';
+import { parseCommitMessage, ConventionalCommit, CommitTrailer } from './commit-message.js';
+import { createIdentityMatcher, getCoAuthors, parseIdentity, Identity, IdentityMatcher } from './identity.js';
 
 export interface Commit {
   hash: string;
   date: string;
   message: string;
+  // Author name and email after .mailmap
   author: string;
+  authorEmail?: string;
   body?: string;
+  parents?: string[];
   files?: string[];
   insertions?: number;
   deletions?: number;
+  diff?: string;
   prNumber?: number;
+  // Issues the commit fixes or references, kept apart from its PR
+  issues?: number[];
   prTitle?: string;
   prDescription?: string;
   prUrl?: string;
+  // Conventional Commits header ("feat(billing)!: ..."), when the subject has one
+  conventional?: ConventionalCommit;
+  trailers?: CommitTrailer[];
+  // People credited with Co-authored-by trailers
+  coAuthors?: Identity[];
+  // Who the commit is credited to: the author, or the user as a co-author
+  credit?: {
+    identity: Identity;
+    coAuthor: boolean;
+  };
+  // Ticket keys such as PAY-1234 from the subject, body and trailers
+  tickets?: string[];
+  // Hashes of the commits combined into this one (clustered achievements)
+  commits?: string[];
+}
+
+// Control characters used to delimit git log records and fields
+const RECORD_START = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+const HEADER_END = '\x1d';
+
+// Keep at most this much patch text per commit; analysis only needs a sample
+export const MAX_PATCH_LENGTH = 100000;
+
+// %aN/%aE apply the repository's .mailmap (and mailmap.file)
+const LOG_FORMAT = `${RECORD_START}${['%H', '%P', '%ai', '%aN', '%aE', '%s', '%b'].join(FIELD_SEPARATOR)}${HEADER_END}`;
+
+const DIFF_ARGS = [
+  '--numstat',
+  '--patch',
+  // Diff merge commits against their first parent, like `git diff <hash>^ <hash>`
+  '--diff-merges=first-parent',
+  '--no-color',
+  '--no-ext-diff',
+];
+
+/**
+ * Build the git log arguments. Dates are filtered by git; identities and
+ * excluded commits are filtered while reading (co-authors aren't visible to
+ * --author), so the commit limit is only passed to git when nothing is
+ * filtered. Oldest-first logs can't use it either: git would apply it before
+ * reversing. Filtered logs read headers only; the patches of the commits
+ * kept are read afterwards with buildPatchArgs.
+ */
+function buildLogArgs(options: {
+  limit?: number;
+  since?: string;
+  until?: string;
+  mailmap?: string;
+  oldest?: boolean;
+}, filtered: boolean): string[] {
+  const args = [
+    ...(options.mailmap ? ['-c', `mailmap.file=${options.mailmap}`] : []),
+    'log',
+    ...(filtered ? [] : [`--max-count=${getLimit(options.limit)}`]),
+    ...(options.oldest ? ['--reverse'] : []),
+    `--format=${LOG_FORMAT}`,
+    ...(filtered ? [] : DIFF_ARGS),
+  ];
+
+  if (options.since) {
+    args.push(`--since=${options.since}`);
+  }
+  if (options.until) {
+    args.push(`--until=${options.until}`);
+  }
+
+  return args;
+}
+
+/**
+ * git log arguments for the numstat and patch of the commits listed on stdin
+ */
+function buildPatchArgs(): string[] {
+  return ['log', '--no-walk=unsorted', '--stdin', `--format=${LOG_FORMAT}`, ...DIFF_ARGS];
+}
+
+function getLimit(limit?: number): number {
+  return limit ? parseInt(limit.toString()) : 100;
+}
+
+/**
+ * Resolve the destination path of a numstat entry, including renames
+ * (`old => new` and `dir/{old => new}/file`)
+ */
+function resolveNumstatPath(path: string): string {
+  const braceMatch = path.match(/^(.*)\{(.*) => (.*)\}(.*)$/);
+  if (braceMatch) {
+    return `${braceMatch[1]}${braceMatch[3]}${braceMatch[4]}`.replace(/\/\//g, '/');
+  }
+  const renameMatch = path.match(/^(.*) => (.*)$/);
+  if (renameMatch) {
+    return renameMatch[2];
+  }
+  return path;
+}
+
+/**
+ * Parse the header of a log record (everything between RECORD_START and HEADER_END)
+ */
+function parseHeader(header: string): Commit {
+  const [hash, parents, date, author, authorEmail, message, body] = header.split(FIELD_SEPARATOR);
+  return {
+    hash,
+    date,
+    message: message || '',
+    author,
+    authorEmail: authorEmail || undefined,
+    body: body?.trim() || undefined,
+    parents: parents ? parents.split(' ') : [],
+    files: [],
+    insertions: 0,
+    deletions: 0,
+    diff: '',
+  };
+}
+
+/**
+ * Stream `git log` once, collecting metadata, numstat and patch for every
+ * commit. With `accept`, other commits are dropped and git is stopped once
+ * `limit` commits were accepted. `input` is written to git's stdin.
+ */
+function streamGitLog(
+  repoPath: string,
+  args: string[],
+  options: { accept?: (commit: Commit) => boolean; limit?: number; input?: string } = {}
+): Promise<Commit[]> {
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn('git', args, { cwd: repoPath });
+    // git may exit before reading everything (e.g. a bad revision); the exit code reports it
+    child.stdin.on('error', () => {});
+    child.stdin.end(options.input);
+    const lines = createInterface({ input: child.stdout, crlfDelay: Infinity });
+    const commits: Commit[] = [];
+    let stderr = '';
+    let stopped = false;
+
+    let current: Commit | null = null;
+    let header: string | null = null;
+    let inPatch = false;
+    const patchLines: string[] = [];
+    let patchLength = 0;
+
+    const finishCommit = () => {
+      if (current) {
+        current.diff = patchLines.join('\n');
+        if (!options.accept || options.accept(current)) {
+          commits.push(current);
+        }
+      }
+      current = null;
+      inPatch = false;
+      patchLines.length = 0;
+      patchLength = 0;
+    };
+
+    lines.on('line', (line) => {
+      if (stopped) {
+        return;
+      }
+
+      // Start of a new record; the header may span several lines (multi-line bodies)
+      if (header === null && line.startsWith(RECORD_START)) {
+        finishCommit();
+        if (options.limit !== undefined && commits.length >= options.limit) {
+          // Enough matching commits; the rest of the history isn't needed
+          stopped = true;
+          lines.close();
+          child.kill();
+          resolvePromise(commits);
+          return;
+        }
+        header = '';
+        line = line.substring(RECORD_START.length);
+      }
+
+      if (header !== null) {
+        const endIndex = line.indexOf(HEADER_END);
+        if (endIndex === -1) {
+          header += `${line}\n`;
+          return;
+        }
+        current = parseHeader(header + line.substring(0, endIndex));
+        header = null;
+        return;
+      }
+
+      if (!current) {
+        return;
+      }
+
+      if (!inPatch && line.startsWith('diff --git ')) {
+        inPatch = true;
+      }
+
+      if (inPatch) {
+        if (patchLength < MAX_PATCH_LENGTH) {
+          patchLines.push(line);
+          patchLength += line.length + 1;
+        }
+        return;
+      }
+
+      // numstat: "<added>\t<deleted>\t<path>" ("-" for binary files)
+      const numstat = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+      if (numstat) {
+        current.files!.push(resolveNumstatPath(numstat[3]));
+        current.insertions! += numstat[1] === '-' ? 0 : parseInt(numstat[1], 10);
+        current.deletions! += numstat[2] === '-' ? 0 : parseInt(numstat[2], 10);
+      }
+    });
+
+    child.stderr.on('data', (chunk) => {
+      stderr += chunk.toString();
+    });
+
+    child.on('error', reject);
+
+    child.on('close', (code) => {
+      if (stopped) {
+        return;
+      }
+      finishCommit();
+      if (code !== 0) {
+        reject(new Error(stderr.trim() || `git log exited with code ${code}`));
+        return;
+      }
+      resolvePromise(commits);
+    });
+  });
+}
+
+/**
+ * Extract PR and issue references, conventional headers, trailers, co-authors
+ * and tickets from a commit message
+ */
+function parseMessage(commit: Commit, ticketPrefixes?: string[]): void {
+  const { pr, issues } = extractReferences(commit.message, commit.body);
+  if (pr) {
+    commit.prNumber = pr.number;
+  }
+  if (issues.length > 0) {
+    commit.issues = issues;
+  }
+  const { conventional, trailers, tickets } = parseCommitMessage(commit.message, commit.body, {
+    prefixes: ticketPrefixes,
+    ignore: PR_REFERENCE_PATTERNS,
+  });
+  if (conventional) {
+    commit.conventional = conventional;
+  }
+  if (trailers.length > 0) {
+    commit.trailers = trailers;
+  }
+  const coAuthors = getCoAuthors(trailers);
+  if (coAuthors.length > 0) {
+    commit.coAuthors = coAuthors;
+  }
+  if (tickets.length > 0) {
+    commit.tickets = tickets;
+  }
+}
+
+/**
+ * Map identities through the repository's .mailmap (and mailmap.file) with
+ * `git check-mailmap`, as %aN/%aE do for authors. Identities without an
+ * email can't be looked up and are kept as they are.
+ */
+function createMailmap(repoPath: string, mailmap?: string): (identity: Identity) => Identity {
+  const cache = new Map<string, Identity>();
+  return (identity) => {
+    if (!identity.email) {
+      return identity;
+    }
+    const contact = `${identity.name} <${identity.email}>`.trim();
+    let mapped = cache.get(contact);
+    if (!mapped) {
+      try {
+        const output = execFileSync('git', [
+          ...(mailmap ? ['-c', `mailmap.file=${mailmap}`] : []),
+          'check-mailmap',
+          contact,
+        ], { cwd: repoPath, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] });
+        mapped = parseIdentity(output.trim());
+      } catch {
+        mapped = identity;
+      }
+      cache.set(contact, mapped);
+    }
+    return mapped;
+  };
+}
+
+/**
+ * Credit a commit to the user when one of their identities authored or
+ * co-authored it; without identities every commit is credited to its author
+ */
+function creditCommit(commit: Commit, matcher: IdentityMatcher | null): boolean {
+  const author: Identity = { name: commit.author, email: commit.authorEmail };
+  if (!matcher || matcher.matches(author)) {
+    commit.credit = { identity: author, coAuthor: false };
+    return true;
+  }
+  const coAuthor = commit.coAuthors?.find(identity => matcher.matches(identity));
+  if (coAuthor) {
+    commit.credit = { identity: coAuthor, coAuthor: true };
+    return true;
+  }
+  return false;
 }
 
 export async function parseGitCommits(
@@ -21,66 +340,62 @@ export async function parseGitCommits(
   options: {
     limit?: number;
     since?: string;
-    author?: string;
+    until?: string;
+    // The user's names and emails ("Name <email>", an email or a name)
+    author?: string | string[];
+    // Extra mailmap file on top of the repository's .mailmap
+    mailmap?: string;
+    // Take the oldest commits in range instead of the newest (still returned newest first)
+    oldest?: boolean;
+    // Commits to leave out before the limit applies (already recorded ones)
+    exclude?: (hash: string) => boolean;
+    // Project keys of the tickets to record, e.g. ["PAY"]
+    ticketPrefixes?: string[];
   }
 ): Promise<Commit[]> {
-  const git: SimpleGit = simpleGit(repoPath);
-
   try {
-    const logOptions: any = {
-      maxCount: options.limit ? parseInt(options.limit.toString()) : 100,
-      format: {
-        hash: '%H',
-        date: '%ai',
-        message: '%s',
-        author: '%an <%ae>',
-        body: '%b',
-      },
-    };
-
-    if (options.author) {
-      logOptions.author = options.author;
+    if (!existsSync(repoPath)) {
+      throw new Error(`Repository path does not exist: ${repoPath}`);
     }
 
-    const log: LogResult = await git.log(logOptions);
-
-    let commits: Commit[] = log.all.map((commit) => ({
-      hash: commit.hash,
-      date: commit.date,
-      message: commit.message,
-      author: commit.author_name,
-      body: commit.body || undefined,
-    }));
-
-    // Filter by date if since option is provided
-    if (options.since) {
-      const sinceDate = new Date(options.since);
-      commits = commits.filter((commit) => {
-        const commitDate = new Date(commit.date);
-        return commitDate >= sinceDate;
-      });
-    }
-
-    // Get file stats and extract PR numbers for each commit
-    for (const commit of commits) {
-      try {
-        const diffSummary = await git.diffSummary([`${commit.hash}^`, commit.hash]);
-        commit.files = diffSummary.files.map((f) => f.file);
-        commit.insertions = diffSummary.insertions;
-        commit.deletions = diffSummary.deletions;
-      } catch (error) {
-        // Skip if diff fails (e.g., first commit)
+    const matcher = createIdentityMatcher([options.author || []].flat());
+    const mapIdentity = createMailmap(repoPath, options.mailmap);
+    const accept = (commit: Commit): boolean => {
+      if (options.exclude?.(commit.hash)) {
+        return false;
+      }
+      parseMessage(commit, options.ticketPrefixes);
+      // Co-authors only matter for matching; git maps authors itself
+      if (matcher && commit.coAuthors) {
+        commit.coAuthors = commit.coAuthors.map(mapIdentity);
       }
+      return creditCommit(commit, matcher);
+    };
+
+    const filtered = !!matcher || !!options.exclude || !!options.oldest;
+    const commits = await streamGitLog(repoPath, buildLogArgs(options, filtered), {
+      accept,
+      limit: filtered ? getLimit(options.limit) : undefined,
+    });
 
-      // Extract PR number from commit message
-      const prNumber = extractPRNumber(commit.message, commit.body);
-      if (prNumber) {
-        commit.prNumber = prNumber;
+    // Filtering read headers only, so a rare author doesn't stream the
+    // patches of the whole history; read the patches of the commits kept
+    if (filtered && commits.length > 0) {
+      const patches = await streamGitLog(repoPath, buildPatchArgs(), {
+        input: `${commits.map(commit => commit.hash).join('\n')}\n`,
+      });
+      const byHash = new Map(patches.map(patch => [patch.hash, patch]));
+      for (const commit of commits) {
+        const patch = byHash.get(commit.hash);
+        commit.files = patch?.files || [];
+        commit.insertions = patch?.insertions || 0;
+        commit.deletions = patch?.deletions || 0;
+        commit.diff = patch?.diff || '';
       }
     }
 
-    return commits;
+    return options.oldest ? commits.reverse() : commits;
   } catch (error: any) {
     throw new Error(`Failed to parse git commits: ${error.message}`);
   }
-}
\ No newline at end of file
+}
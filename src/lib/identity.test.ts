@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createIdentityMatcher, parseIdentity, formatIdentity, getCoAuthors } from './identity.js';
+
+describe('parseIdentity', () => {
+  it('parses "Name <email>", bare emails and bare names', () => {
+    expect(parseIdentity(' Jane Doe <jane@work.com> ')).toEqual({ name: 'Jane Doe', email: 'jane@work.com' });
+    expect(parseIdentity('jane@work.com')).toEqual({ name: '', email: 'jane@work.com' });
+    expect(parseIdentity('Jane Doe')).toEqual({ name: 'Jane Doe' });
+    expect(formatIdentity({ name: 'Jane Doe', email: 'jane@work.com' })).toBe('Jane Doe <jane@work.com>');
+  });
+});
+
+describe('createIdentityMatcher', () => {
+  const jane = { name: 'Jane Smith', email: 'jane@corp.com' };
+
+  it('returns null without aliases', () => {
+    expect(createIdentityMatcher([])).toBeNull();
+    expect(createIdentityMatcher([' '])).toBeNull();
+  });
+
+  it('matches any part of the contact for bare values, like git --author', () => {
+    for (const alias of ['smith', 'SMITH', '@corp.com', 'jane@corp.com', 'Jane Smith', 'smith <jane']) {
+      expect(createIdentityMatcher([alias])!.matches(jane)).toBe(true);
+    }
+    expect(createIdentityMatcher(['smithers'])!.matches(jane)).toBe(false);
+    expect(createIdentityMatcher(['@corp.org'])!.matches(jane)).toBe(false);
+  });
+
+  it('matches the name or email of "Name <email>" in full', () => {
+    const matcher = createIdentityMatcher(['Jane Smith <jane@home.net>'])!;
+    expect(matcher.matches(jane)).toBe(true);
+    expect(matcher.matches({ name: 'J. Smith', email: 'JANE@home.net' })).toBe(true);
+    expect(matcher.matches({ name: 'Jane', email: 'jane@corp.com' })).toBe(false);
+  });
+
+  it('matches GitHub noreply addresses with or without the numeric ID', () => {
+    const matcher = createIdentityMatcher(['janed@users.noreply.github.com'])!;
+    expect(matcher.matches({ name: 'Jane', email: '1234+janed@users.noreply.github.com' })).toBe(true);
+    expect(createIdentityMatcher(['1234+janed@users.noreply.github.com'])!.matches({ name: 'Jane', email: 'janed@users.noreply.github.com' })).toBe(true);
+  });
+});
+
+describe('getCoAuthors', () => {
+  it('reads Co-authored-by trailers', () => {
+    expect(getCoAuthors([
+      { key: 'Co-authored-by', value: 'Bo <bo@example.com>' },
+      { key: 'Reviewed-by', value: 'Al <al@example.com>' },
+      { key: 'co-authored-by', value: 'Cy' },
+    ])).toEqual([{ name: 'Bo', email: 'bo@example.com' }, { name: 'Cy' }]);
+  });
+});
@@ -0,0 +1,83 @@
+import { CommitTrailer } from './commit-message.js';
+
+export interface Identity {
+  name: string;
+  email?: string;
+}
+
+export interface IdentityMatcher {
+  aliases: Identity[];
+  matches(identity: Identity): boolean;
+}
+
+const IDENTITY_PATTERN = /^\s*(.*?)\s*<([^<>]*)>\s*$/;
+
+// GitHub noreply addresses carry an optional numeric ID: 123456+user@users.noreply.github.com
+const GITHUB_NOREPLY = /^\d+\+(.+@users\.noreply\.github\.com)$/;
+
+/**
+ * Parse "Name <email>", a bare email or a bare name
+ */
+export function parseIdentity(value: string): Identity {
+  const match = value.match(IDENTITY_PATTERN);
+  if (match) {
+    return { name: match[1], email: match[2].trim() || undefined };
+  }
+  const trimmed = value.trim();
+  return trimmed.includes('@') ? { name: '', email: trimmed } : { name: trimmed };
+}
+
+export function formatIdentity(identity: Identity): string {
+  if (!identity.email) {
+    return identity.name;
+  }
+  return identity.name ? `${identity.name} <${identity.email}>` : identity.email;
+}
+
+/**
+ * Lowercase an email and drop the ID from GitHub noreply addresses, so both
+ * noreply forms of an account compare equal
+ */
+export function normalizeEmail(email: string): string {
+  const lower = email.trim().toLowerCase();
+  return lower.match(GITHUB_NOREPLY)?.[1] || lower;
+}
+
+/**
+ * Match commit identities against the user's aliases, case-insensitively.
+ * "Name <email>" matches the name or the email in full. A bare value matches
+ * any part of "Name <email>", like git's --author (`smith`, `@corp.com`).
+ * Null without aliases.
+ */
+export function createIdentityMatcher(aliases: string[]): IdentityMatcher | null {
+  const values = aliases.filter(alias => alias.trim());
+  if (values.length === 0) {
+    return null;
+  }
+  const full = values.filter(alias => IDENTITY_PATTERN.test(alias)).map(parseIdentity);
+  const names = new Set(full.map(alias => alias.name.toLowerCase()).filter(Boolean));
+  const emails = new Set(full.flatMap(alias => alias.email ? [normalizeEmail(alias.email)] : []));
+  const parts = values
+    .filter(alias => !IDENTITY_PATTERN.test(alias))
+    .map(alias => alias.includes('@') ? normalizeEmail(alias) : alias.trim().toLowerCase());
+
+  return {
+    aliases: values.map(parseIdentity),
+    matches(identity: Identity): boolean {
+      const email = identity.email ? normalizeEmail(identity.email) : '';
+      const contact = `${identity.name.toLowerCase()} <${email}>`;
+      return (!!identity.name && names.has(identity.name.toLowerCase())) ||
+        (!!email && emails.has(email)) ||
+        parts.some(part => contact.includes(part));
+    },
+  };
+}
+
+/**
+ * People credited with Co-authored-by trailers
+ */
+export function getCoAuthors(trailers: CommitTrailer[] = []): Identity[] {
+  return trailers
+    .filter(trailer => trailer.key.toLowerCase() === 'co-authored-by')
+    .map(trailer => parseIdentity(trailer.value));
+}
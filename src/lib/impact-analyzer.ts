@@ -1,12 +1,14 @@
 import { Commit } from './git-parser.js';
 import { analyzeDiff, DiffAnalysis } from './diff-analyzer.js';
+import { PatternSet } from './pattern-packs.js';
 
 // Legacy function for backward compatibility - now uses diff analyzer
 export async function analyzeImpact(
   commit: Commit,
-  repoPath: string
+  repoPath: string,
+  patterns?: PatternSet
 ): Promise<DiffAnalysis> {
-  return await analyzeDiff(commit, repoPath);
+  return await analyzeDiff(commit, repoPath, patterns);
 }
 
 // Simple synchronous version that returns just the impact level
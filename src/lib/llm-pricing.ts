@@ -0,0 +1,58 @@
+import { LLMProvider } from './llm-provider.js';
+
+export interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// List prices for common hosted models, matched by longest model-name prefix
+// so dated and "-latest" variants resolve to their family
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+};
+
+/**
+ * Price of a provider's model, or null when unknown. Models served from this
+ * machine cost nothing; `overrides` (the config file's "pricing") take
+ * precedence over the built-in list.
+ */
+export function getModelPrice(provider: LLMProvider, overrides: Record<string, ModelPrice> = {}): ModelPrice | null {
+  if (overrides[provider.model]) {
+    return overrides[provider.model];
+  }
+  if (provider.dataLocal) {
+    return { input: 0, output: 0 };
+  }
+  const pricing = { ...MODEL_PRICING, ...overrides };
+  const match = Object.keys(pricing)
+    .filter(prefix => provider.model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? pricing[match] : null;
+}
+
+/**
+ * Cost in USD of a request with the given token counts
+ */
+export function calculateCost(price: ModelPrice, inputTokens: number, outputTokens: number): number {
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Format a USD amount with enough precision for fractions of a cent
+ */
+export function formatUsd(amount: number): string {
+  return `$${amount < 1 ? amount.toFixed(4) : amount.toFixed(2)}`;
+}
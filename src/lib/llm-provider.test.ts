@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createLLMProvider } from './llm-provider.js';
+import { MockServer, MockHandler, sendJson, startMockServer } from '../test/mock-server.js';
+
+const REQUEST = { system: 'You write resume bullets', prompt: 'Summarize this commit', maxTokens: 60, temperature: 0.2 };
+
+describe('LLM providers', () => {
+  let server: MockServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  const start = async (handler: MockHandler) => {
+    server = await startMockServer(handler);
+    return server;
+  };
+
+  it('sends OpenAI chat completions with a bearer token', async () => {
+    const mock = await start((_, res) => sendJson(res, {
+      choices: [{ message: { content: '  Built usage-based billing  ' } }],
+      usage: { prompt_tokens: 42, completion_tokens: 7 },
+    }));
+    const provider = createLLMProvider({ provider: 'openai', baseUrl: `${mock.url}/v1/`, apiKey: 'sk-test', model: 'gpt-4o-mini' });
+
+    expect(await provider.complete(REQUEST)).toBe('Built usage-based billing');
+
+    const [request] = mock.requests;
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/v1/chat/completions');
+    expect(request.headers.authorization).toBe('Bearer sk-test');
+    expect(request.body).toEqual({
+      model: 'gpt-4o-mini',
+      messages: [
+        { role: 'system', content: REQUEST.system },
+        { role: 'user', content: REQUEST.prompt },
+      ],
+      max_tokens: 60,
+      temperature: 0.2,
+    });
+    expect(provider.usage).toEqual({ requests: 1, inputTokens: 42, outputTokens: 7, estimatedRequests: 0 });
+    expect(provider.dataLocal).toBe(true);
+  });
+
+  it('uses the api-key header and api-version for Azure OpenAI', async () => {
+    const mock = await start((_, res) => sendJson(res, { choices: [{ message: { content: 'ok' } }] }));
+    const provider = createLLMProvider({ provider: 'openai', baseUrl: `${mock.url}/openai/deployments/gpt`, apiKey: 'azure-key', apiVersion: '2024-06-01' });
+
+    await provider.complete(REQUEST);
+
+    const [request] = mock.requests;
+    expect(request.url).toBe('/openai/deployments/gpt/chat/completions?api-version=2024-06-01');
+    expect(request.headers['api-key']).toBe('azure-key');
+    expect(request.headers.authorization).toBeUndefined();
+    // No usage in the response: counts are estimated
+    expect(provider.usage.estimatedRequests).toBe(1);
+  });
+
+  it('sends Anthropic messages with the API key and version headers', async () => {
+    const mock = await start((_, res) => sendJson(res, {
+      content: [{ type: 'text', text: 'Cut checkout ' }, { type: 'tool_use' }, { type: 'text', text: 'latency by 40%' }],
+      usage: { input_tokens: 30, output_tokens: 9 },
+    }));
+    const provider = createLLMProvider({ provider: 'anthropic', baseUrl: mock.url, apiKey: 'sk-ant-test', model: 'claude-3-5-haiku-latest' });
+
+    expect(await provider.complete(REQUEST)).toBe('Cut checkout latency by 40%');
+
+    const [request] = mock.requests;
+    expect(request.url).toBe('/v1/messages');
+    expect(request.headers['x-api-key']).toBe('sk-ant-test');
+    expect(request.headers['anthropic-version']).toBe('2023-06-01');
+    expect(request.body).toEqual({
+      model: 'claude-3-5-haiku-latest',
+      system: REQUEST.system,
+      messages: [{ role: 'user', content: REQUEST.prompt }],
+      max_tokens: 60,
+      temperature: 0.2,
+    });
+    expect(provider.usage).toMatchObject({ inputTokens: 30, outputTokens: 9 });
+  });
+
+  it('requires an API key for Anthropic', () => {
+    expect(() => createLLMProvider({ provider: 'anthropic' })).toThrow('requires an API key');
+  });
+
+  it('sends Ollama generate requests without streaming', async () => {
+    const mock = await start((_, res) => sendJson(res, { response: 'Added retry logic\n', prompt_eval_count: 25, eval_count: 5 }));
+    const provider = createLLMProvider({ provider: 'ollama', baseUrl: mock.url, model: 'llama3.2' });
+
+    expect(await provider.complete(REQUEST)).toBe('Added retry logic');
+
+    const [request] = mock.requests;
+    expect(request.url).toBe('/api/generate');
+    expect(request.body).toEqual({
+      model: 'llama3.2',
+      system: REQUEST.system,
+      prompt: REQUEST.prompt,
+      stream: false,
+      options: { temperature: 0.2, num_predict: 60 },
+    });
+    expect(provider.usage).toMatchObject({ inputTokens: 25, outputTokens: 5 });
+  });
+
+  it('retries a 429 after the Retry-After delay', async () => {
+    const times: number[] = [];
+    const mock = await start((_, res) => {
+      times.push(Date.now());
+      if (times.length === 1) {
+        sendJson(res, { error: 'rate limited' }, 429, { 'Retry-After': '1' });
+        return;
+      }
+      sendJson(res, { choices: [{ message: { content: 'ok' } }] });
+    });
+    const provider = createLLMProvider({ provider: 'openai', baseUrl: mock.url, apiKey: 'sk-test', maxRetries: 2 });
+
+    expect(await provider.complete(REQUEST)).toBe('ok');
+    expect(mock.requests).toHaveLength(2);
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(900);
+    expect(provider.usage.requests).toBe(1);
+  });
+
+  it('gives up on a 429 once the retries are used', async () => {
+    const mock = await start((_, res) => sendJson(res, { error: 'rate limited' }, 429, { 'Retry-After': '0' }));
+    const provider = createLLMProvider({ provider: 'openai', baseUrl: mock.url, apiKey: 'sk-test', maxRetries: 1 });
+
+    await expect(provider.complete(REQUEST)).rejects.toThrow('failed with status 429');
+    expect(mock.requests).toHaveLength(2);
+    expect(provider.usage.requests).toBe(0);
+  });
+
+  it('does not wait when Retry-After asks for too long a pause', async () => {
+    const mock = await start((_, res) => sendJson(res, { error: 'rate limited' }, 429, { 'Retry-After': '3600' }));
+    const provider = createLLMProvider({ provider: 'openai', baseUrl: mock.url, apiKey: 'sk-test', maxRetries: 3 });
+
+    await expect(provider.complete(REQUEST)).rejects.toThrow('failed with status 429');
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  it('does not retry client errors', async () => {
+    const mock = await start((_, res) => sendJson(res, { error: 'bad key' }, 401));
+    const provider = createLLMProvider({ provider: 'openai', baseUrl: mock.url, apiKey: 'sk-test', maxRetries: 3 });
+
+    await expect(provider.complete(REQUEST)).rejects.toThrow('failed with status 401');
+    expect(mock.requests).toHaveLength(1);
+  });
+});
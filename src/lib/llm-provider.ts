@@ -0,0 +1,374 @@
+import { isNetworkGuardError } from './network-guard.js';
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'ollama';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'anthropic', 'ollama'];
+
+export interface LLMRequest {
+  system: string;
+  prompt: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMProviderOptions {
+  provider: LLMProviderName;
+  model?: string;
+  // API root: https://api.openai.com/v1, http://localhost:8000/v1 (vLLM),
+  // https://<resource>.openai.azure.com/openai/deployments/<deployment> (Azure)
+  baseUrl?: string;
+  apiKey?: string;
+  // Azure OpenAI api-version; switches to Azure's api-key header
+  apiVersion?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export interface LLMUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Requests whose token counts were estimated because the API didn't report them
+  estimatedRequests: number;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  baseUrl: string;
+  // True when requests stay on this machine (a server on localhost)
+  dataLocal: boolean;
+  // Running totals for every successful request this run
+  usage: LLMUsage;
+  complete(request: LLMRequest): Promise<string>;
+}
+
+interface Completion {
+  text: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+interface ProviderDefaults {
+  model: string;
+  baseUrl: string;
+  timeoutMs: number;
+}
+
+const PROVIDER_DEFAULTS: Record<LLMProviderName, ProviderDefaults> = {
+  openai: { model: 'gpt-3.5-turbo', baseUrl: 'https://api.openai.com/v1', timeoutMs: 30000 },
+  anthropic: { model: 'claude-3-5-haiku-latest', baseUrl: 'https://api.anthropic.com', timeoutMs: 30000 },
+  // Local models can be slow to load and generate
+  ollama: { model: 'llama3.2', baseUrl: 'http://localhost:11434', timeoutMs: 120000 },
+};
+
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+// Give up instead of waiting when a server asks for a longer pause
+const MAX_RETRY_AFTER_MS = 120000;
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+type ResolvedProviderOptions = LLMProviderOptions & {
+  model: string;
+  baseUrl: string;
+  timeoutMs: number;
+};
+
+// Failed API call; retryable for timeouts, rate limits and server errors
+type LLMRequestError = Error & { retryable: boolean; status?: number; retryAfterMs?: number };
+
+function requestError(message: string, retryable: boolean, status?: number, retryAfterMs?: number): LLMRequestError {
+  return Object.assign(new Error(message), { retryable, status, retryAfterMs });
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isLocalUrl(url: string): boolean {
+  try {
+    const hostname = new URL(url).hostname;
+    return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]' || hostname === '::1';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Rough token count for text (about 4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * POST JSON with a timeout; network errors, timeouts, 429 and 5xx are retryable
+ */
+async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number
+): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error: any) {
+    if (isNetworkGuardError(error)) {
+      throw error;
+    }
+    const reason = error.name === 'TimeoutError' ? `timed out after ${timeoutMs}ms` : error.message;
+    throw requestError(`Request to ${url} failed: ${reason}`, true);
+  }
+
+  if (!response.ok) {
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    const retryable = (response.status === 429 || response.status >= 500) &&
+      (retryAfterMs === undefined || retryAfterMs <= MAX_RETRY_AFTER_MS);
+    throw requestError(`Request to ${url} failed with status ${response.status}`, retryable, response.status, retryAfterMs);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Run a request, retrying retryable failures with exponential backoff or the
+ * server's Retry-After. A rate limit pauses every request sharing the gate,
+ * so concurrent workers back off together.
+ */
+async function withRetries<T>(
+  maxRetries: number,
+  gate: { pausedUntil: number },
+  request: () => Promise<T>
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const wait = gate.pausedUntil - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+    }
+    try {
+      return await request();
+    } catch (error: any) {
+      if (!error?.retryable || attempt >= maxRetries) {
+        throw error;
+      }
+      const delay = error.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** attempt;
+      if (error.status === 429) {
+        gate.pausedUntil = Math.max(gate.pausedUntil, Date.now() + delay);
+      }
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Chat completions API: OpenAI, Azure OpenAI, vLLM, LM Studio and other compatible servers
+ */
+function completeOpenAI(options: ResolvedProviderOptions) {
+  return async (request: LLMRequest): Promise<Completion> => {
+    const headers: Record<string, string> = {};
+    if (options.apiKey) {
+      if (options.apiVersion) {
+        headers['api-key'] = options.apiKey;
+      } else {
+        headers['Authorization'] = `Bearer ${options.apiKey}`;
+      }
+    }
+    const query = options.apiVersion ? `?api-version=${encodeURIComponent(options.apiVersion)}` : '';
+
+    const data = await postJson(`${options.baseUrl}/chat/completions${query}`, headers, {
+      model: options.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt },
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    }, options.timeoutMs);
+
+    return {
+      text: data.choices?.[0]?.message?.content?.trim() || '',
+      inputTokens: data.usage?.prompt_tokens,
+      outputTokens: data.usage?.completion_tokens,
+    };
+  };
+}
+
+/**
+ * Anthropic Messages API
+ */
+function completeAnthropic(options: ResolvedProviderOptions) {
+  return async (request: LLMRequest): Promise<Completion> => {
+    const data = await postJson(`${options.baseUrl}/v1/messages`, {
+      'x-api-key': options.apiKey || '',
+      'anthropic-version': ANTHROPIC_VERSION,
+    }, {
+      model: options.model,
+      system: request.system,
+      messages: [{ role: 'user', content: request.prompt }],
+      max_tokens: request.maxTokens ?? 100,
+      temperature: request.temperature,
+    }, options.timeoutMs);
+
+    return {
+      text: (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('')
+        .trim(),
+      inputTokens: data.usage?.input_tokens,
+      outputTokens: data.usage?.output_tokens,
+    };
+  };
+}
+
+/**
+ * Ollama generate API
+ */
+function completeOllama(options: ResolvedProviderOptions) {
+  return async (request: LLMRequest): Promise<Completion> => {
+    const data = await postJson(`${options.baseUrl}/api/generate`, {}, {
+      model: options.model,
+      system: request.system,
+      prompt: request.prompt,
+      stream: false,
+      options: {
+        temperature: request.temperature,
+        num_predict: request.maxTokens,
+      },
+    }, options.timeoutMs);
+
+    return {
+      text: data.response?.trim() || '',
+      inputTokens: data.prompt_eval_count,
+      outputTokens: data.eval_count,
+    };
+  };
+}
+
+/**
+ * Create an LLM provider with its defaults filled in
+ */
+export function createLLMProvider(options: LLMProviderOptions): LLMProvider {
+  if (!LLM_PROVIDERS.includes(options.provider)) {
+    throw new Error(`Unknown LLM provider "${options.provider}" (expected one of: ${LLM_PROVIDERS.join(', ')})`);
+  }
+  if (options.provider === 'anthropic' && !options.apiKey) {
+    throw new Error('The anthropic provider requires an API key (--api-key or CAREER_LOG_API_KEY)');
+  }
+
+  const defaults = PROVIDER_DEFAULTS[options.provider];
+  const resolved: ResolvedProviderOptions = {
+    ...options,
+    model: options.model || defaults.model,
+    baseUrl: (options.baseUrl || defaults.baseUrl).replace(/\/+$/, ''),
+    timeoutMs: options.timeoutMs || defaults.timeoutMs,
+  };
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const gate = { pausedUntil: 0 };
+
+  const complete = options.provider === 'anthropic'
+    ? completeAnthropic(resolved)
+    : options.provider === 'ollama'
+      ? completeOllama(resolved)
+      : completeOpenAI(resolved);
+
+  const usage: LLMUsage = { requests: 0, inputTokens: 0, outputTokens: 0, estimatedRequests: 0 };
+
+  return {
+    name: options.provider,
+    model: resolved.model,
+    baseUrl: resolved.baseUrl,
+    dataLocal: isLocalUrl(resolved.baseUrl),
+    usage,
+    complete: async (request) => {
+      const completion = await withRetries(maxRetries, gate, () => complete(request));
+      usage.requests++;
+      if (completion.inputTokens === undefined || completion.outputTokens === undefined) {
+        usage.estimatedRequests++;
+      }
+      usage.inputTokens += completion.inputTokens ?? estimateTokens(`${request.system}${request.prompt}`);
+      usage.outputTokens += completion.outputTokens ?? estimateTokens(completion.text);
+      return completion.text;
+    },
+  };
+}
+
+/**
+ * Pick the provider from generate options: --llm-provider, else --use-local-llm
+ * (Ollama), else --api-key (OpenAI). Returns null when AI is not enabled.
+ */
+export function resolveLLMProvider(options: {
+  llmProvider?: string;
+  llmModel?: string;
+  llmUrl?: string;
+  llmApiVersion?: string;
+  llmTimeout?: number | string;
+  llmRetries?: number | string;
+  apiKey?: string;
+  useLocalLlm?: boolean;
+  ollamaModel?: string;
+}): LLMProvider | null {
+  let provider = options.llmProvider as LLMProviderName | undefined;
+  if (!provider) {
+    if (options.useLocalLlm) {
+      provider = 'ollama';
+    } else if (options.apiKey) {
+      provider = 'openai';
+    } else {
+      return null;
+    }
+  }
+
+  const timeout = options.llmTimeout !== undefined ? parseFloat(options.llmTimeout.toString()) : undefined;
+  const retries = options.llmRetries !== undefined ? parseInt(options.llmRetries.toString(), 10) : undefined;
+  if (timeout !== undefined && (isNaN(timeout) || timeout <= 0)) {
+    throw new Error(`--llm-timeout must be a positive number of seconds (got "${options.llmTimeout}")`);
+  }
+  if (retries !== undefined && (isNaN(retries) || retries < 0)) {
+    throw new Error(`--llm-retries must be zero or a positive number (got "${options.llmRetries}")`);
+  }
+
+  return createLLMProvider({
+    provider,
+    model: options.llmModel || (provider === 'ollama' ? options.ollamaModel : undefined),
+    baseUrl: options.llmUrl,
+    apiKey: provider === 'ollama' ? undefined : options.apiKey,
+    apiVersion: options.llmApiVersion,
+    timeoutMs: timeout !== undefined ? timeout * 1000 : undefined,
+    maxRetries: retries,
+  });
+}
+
+/**
+ * Settings that identify a provider's output in the analysis cache
+ */
+export function getProviderCacheSettings(provider: LLMProvider): Record<string, unknown> {
+  const isDefaultUrl = provider.baseUrl === PROVIDER_DEFAULTS[provider.name].baseUrl;
+  return {
+    provider: provider.name,
+    model: provider.model,
+    url: isDefaultUrl ? undefined : provider.baseUrl,
+  };
+}
@@ -0,0 +1,74 @@
+import { CareerLog, CareerLogEntry } from './output-formatter.js';
+
+export interface CareerLogStats {
+  entries: number;
+  totalCommits: number;
+  firstDate?: string;
+  lastDate?: string;
+  linesChanged: number;
+  filesChanged: number;
+  aiGenerated: number;
+  pinned: number;
+  averageConfidence: number;
+  impact: {
+    high: number;
+    medium: number;
+    low: number;
+  };
+  byRepository: Record<string, number>;
+  byFileType: Record<string, number>;
+  bySignal: Record<string, number>;
+}
+
+/**
+ * Count occurrences and sort by frequency (most common first)
+ */
+export function countBy(entries: CareerLogEntry[], getKeys: (entry: CareerLogEntry) => string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const entry of entries) {
+    for (const key of getKeys(entry)) {
+      counts[key] = (counts[key] || 0) + 1;
+    }
+  }
+  return Object.fromEntries(Object.entries(counts).sort(([, a], [, b]) => b - a));
+}
+
+/**
+ * Normalize signals so counts group similar ones ("Large change: 812 lines" -> "Large change")
+ */
+function getSignalKind(signal: string): string {
+  return signal.split(':')[0].trim();
+}
+
+/**
+ * Compute aggregate statistics for a career log
+ */
+export function computeLogStats(log: CareerLog): CareerLogStats {
+  const entries = log.entries;
+  const times = entries
+    .map(e => new Date(e.date).getTime())
+    .filter(t => !isNaN(t))
+    .sort((a, b) => a - b);
+
+  return {
+    entries: entries.length,
+    totalCommits: log.totalCommits,
+    firstDate: times.length > 0 ? new Date(times[0]).toISOString() : undefined,
+    lastDate: times.length > 0 ? new Date(times[times.length - 1]).toISOString() : undefined,
+    linesChanged: entries.reduce((sum, e) => sum + (e.linesChanged || 0), 0),
+    filesChanged: entries.reduce((sum, e) => sum + (e.filesChanged || 0), 0),
+    aiGenerated: entries.filter(e => e.aiGenerated).length,
+    pinned: entries.filter(e => e.pinned).length,
+    averageConfidence: entries.length > 0
+      ? Math.round(entries.reduce((sum, e) => sum + (e.confidence || 0), 0) / entries.length * 100) / 100
+      : 0,
+    impact: {
+      high: entries.filter(e => e.impact === 'high').length,
+      medium: entries.filter(e => e.impact === 'medium').length,
+      low: entries.filter(e => e.impact === 'low').length,
+    },
+    byRepository: countBy(entries, e => e.repository ? [e.repository] : []),
+    byFileType: countBy(entries, e => e.fileTypes || []),
+    bySignal: countBy(entries, e => Array.from(new Set((e.signals || []).map(getSignalKind)))),
+  };
+}
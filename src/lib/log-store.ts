@@ -0,0 +1,189 @@
+import { existsSync, readFileSync } from 'fs';
+import { basename } from 'path';
+import { CareerLog, CareerLogEntry, RepositorySummary } from './output-formatter.js';
+
+/**
+ * Read an existing JSON career log, or null if the file doesn't exist
+ */
+export function readCareerLog(filePath: string): CareerLog | null {
+  if (!existsSync(filePath)) {
+    return null;
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Could not read existing career log ${filePath}: ${error.message}`);
+  }
+
+  if (!data || !Array.isArray(data.entries)) {
+    throw new Error(`Existing file ${filePath} is not a career log (missing entries)`);
+  }
+
+  const log = data as CareerLog;
+
+  // Logs written before multi-repo support have no per-repository summary
+  if (!log.repositories) {
+    const repoName = basename(log.repository || '');
+    for (const entry of log.entries) {
+      entry.repository = entry.repository || repoName;
+    }
+    log.repositories = [
+      summarizeRepository(repoName, log.repository, log.totalCommits || 0, log.entries),
+    ];
+  }
+
+  return log;
+}
+
+/**
+ * Unique key for an entry across repositories
+ */
+export function getEntryKey(entry: CareerLogEntry): string {
+  if (entry.source === 'manual') {
+    return `manual:${entry.id}`;
+  }
+  // Reviews have no commit; one entry per reviewed PR. The full project path
+  // keeps acme/api#12 and other/api#12 apart.
+  if (entry.kind === 'review') {
+    return `${entry.review?.project || entry.repository || ''}:review:${entry.pr?.number}`;
+  }
+  return `${entry.repository || ''}:${entry.commit}`;
+}
+
+/**
+ * Keys for every commit an entry covers (clustered entries cover several);
+ * review and manual entries only have their entry key
+ */
+export function getCommitKeys(entry: CareerLogEntry): string[] {
+  if (entry.kind === 'review' || entry.source === 'manual') {
+    return [getEntryKey(entry)];
+  }
+  const commits = entry.commits && entry.commits.length > 0 ? entry.commits : [entry.commit];
+  return commits.map(commit => `${entry.repository || ''}:${commit}`);
+}
+
+/**
+ * Check whether a commit hash is already recorded in a set of entry keys
+ */
+export function hasCommit(keys: Set<string>, repository: string, hash: string): boolean {
+  return keys.has(`${repository}:${hash.substring(0, 8)}`);
+}
+
+/**
+ * Build per-repository totals for the career log summary
+ */
+export function summarizeRepository(
+  name: string,
+  path: string,
+  totalCommits: number,
+  entries: CareerLogEntry[]
+): RepositorySummary {
+  return {
+    name,
+    path,
+    totalCommits,
+    achievements: entries.length,
+    linesChanged: entries.reduce((sum, e) => sum + (e.linesChanged || 0), 0),
+    impact: {
+      high: entries.filter(e => e.impact === 'high').length,
+      medium: entries.filter(e => e.impact === 'medium').length,
+      low: entries.filter(e => e.impact === 'low').length,
+    },
+  };
+}
+
+/**
+ * Sort entries newest first
+ */
+export function sortEntries(entries: CareerLogEntry[]): CareerLogEntry[] {
+  return entries.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+/**
+ * Merge a freshly generated log into an existing one.
+ *
+ * In incremental mode every existing entry is kept as-is (including hand edits)
+ * and only entries for new commits are added. In a full rebuild the fresh
+ * entries win, except for entries the user pinned or added by hand.
+ */
+export function mergeCareerLogs(
+  existing: CareerLog,
+  fresh: CareerLog,
+  options: { incremental?: boolean } = {}
+): CareerLog {
+  const merged = new Map<string, CareerLogEntry>();
+
+  if (options.incremental) {
+    for (const entry of existing.entries) {
+      merged.set(getEntryKey(entry), entry);
+    }
+    for (const entry of fresh.entries) {
+      const key = getEntryKey(entry);
+      if (!merged.has(key)) {
+        merged.set(key, entry);
+      }
+    }
+  } else {
+    for (const entry of fresh.entries) {
+      merged.set(getEntryKey(entry), entry);
+    }
+    for (const entry of existing.entries) {
+      if (entry.pinned || entry.source === 'manual') {
+        merged.set(getEntryKey(entry), entry);
+      }
+    }
+  }
+
+  const entries = sortEntries(Array.from(merged.values()));
+
+  // Recompute per-repository totals from the merged entries
+  const existingRepos = new Map((existing.repositories || []).map(r => [r.name, r]));
+  const freshRepos = new Map((fresh.repositories || []).map(r => [r.name, r]));
+  const repoNames = Array.from(new Set([...freshRepos.keys(), ...existingRepos.keys()]));
+  const repositories: RepositorySummary[] = [];
+
+  for (const name of repoNames) {
+    const repoEntries = entries.filter(e => e.repository === name);
+    const freshRepo = freshRepos.get(name);
+    const existingRepo = existingRepos.get(name);
+    if (!freshRepo && repoEntries.length === 0) {
+      continue;
+    }
+
+    let totalCommits = freshRepo?.totalCommits || 0;
+    if (options.incremental || !freshRepo) {
+      totalCommits += existingRepo?.totalCommits || 0;
+    }
+
+    repositories.push(summarizeRepository(
+      name,
+      freshRepo?.path || existingRepo?.path || name,
+      totalCommits,
+      repoEntries
+    ));
+  }
+
+  // Only keep checkpoints for repositories that are still part of the log
+  const lastProcessed: Record<string, { commit: string; date: string }> = {};
+  for (const [name, checkpoint] of Object.entries({
+    ...(existing.lastProcessed || {}),
+    ...(fresh.lastProcessed || {}),
+  })) {
+    if (repositories.some(r => r.name === name)) {
+      lastProcessed[name] = checkpoint;
+    }
+  }
+
+  return {
+    ...fresh,
+    repository: repositories.length > 1
+      ? repositories.map(r => r.name).join(', ')
+      : fresh.repository,
+    repositories,
+    totalCommits: repositories.reduce((sum, r) => sum + r.totalCommits, 0),
+    lastProcessed,
+    entries,
+  };
+}
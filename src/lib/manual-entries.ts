@@ -0,0 +1,226 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { CareerLog, CareerLogEntry } from './output-formatter.js';
+import { getEntryKey, sortEntries } from './log-store.js';
+
+export interface ManualEntryInput {
+  achievement: string;
+  // YYYY-MM-DD (or any date JavaScript parses); defaults to today
+  date?: string;
+  impact?: string;
+  tags?: string[];
+  links?: string[];
+}
+
+const IMPACT_LEVELS: CareerLogEntry['impact'][] = ['high', 'medium', 'low'];
+
+const ManualEntrySchema = z.object({
+  achievement: z.string().min(1),
+  date: z.union([z.string(), z.date()]).transform(value => value instanceof Date ? value.toISOString().substring(0, 10) : value),
+  impact: z.enum(['high', 'medium', 'low']).optional(),
+  tags: z.array(z.string()).optional(),
+  links: z.array(z.string()).optional(),
+}).strict();
+
+// A list of entries, or { entries: [...] }
+const BragDocSchema = z.union([
+  z.array(ManualEntrySchema),
+  z.object({ entries: z.array(ManualEntrySchema) }).strict().transform(doc => doc.entries),
+]);
+
+// "## 2025-03-02" or "## 2025-03" headings date the items below them
+const DATE_HEADING = /^#{1,6}\s+.*?\b(\d{4}-\d{2}(?:-\d{2})?)\b/;
+const BULLET = /^(\s*)[-*+]\s+(.*)$/;
+const LEADING_DATE = /^(\d{4}-\d{2}-\d{2})\s*[:–—-]?\s+/;
+const IMPACT_MARKER = /\[(high|medium|low)\]/i;
+const TAG = /(^|\s)#([A-Za-z][\w-]*)/g;
+const MARKDOWN_LINK = /\[([^\]]+)\]\((\S+?)\)/g;
+const URL = /<?\bhttps?:\/\/[^\s>]+>?/g;
+
+/**
+ * Normalize a user-supplied date to YYYY-MM-DD
+ */
+function parseEntryDate(value: string): string {
+  const trimmed = value.trim();
+  const date = new Date(/^\d{4}-\d{2}$/.test(trimmed) ? `${trimmed}-01` : trimmed);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${value}" (expected YYYY-MM-DD)`);
+  }
+  return /^\d{4}-\d{2}-\d{2}/.test(trimmed) ? trimmed.substring(0, 10) : date.toISOString().substring(0, 10);
+}
+
+/**
+ * Build a manual entry. Its ID comes from the date and text, so adding or
+ * importing the same achievement again updates it instead of duplicating it.
+ */
+export function createManualEntry(input: ManualEntryInput): CareerLogEntry {
+  const achievement = input.achievement.trim().replace(/\s+/g, ' ');
+  if (!achievement) {
+    throw new Error('A manual entry needs achievement text');
+  }
+  const impact = (input.impact || 'medium').toLowerCase() as CareerLogEntry['impact'];
+  if (!IMPACT_LEVELS.includes(impact)) {
+    throw new Error(`Unknown impact "${input.impact}" (expected one of: ${IMPACT_LEVELS.join(', ')})`);
+  }
+  const date = parseEntryDate(input.date || new Date().toISOString());
+  const tags = Array.from(new Set((input.tags || []).map(tag => tag.trim().replace(/^#/, '')).filter(Boolean)));
+  const links = Array.from(new Set((input.links || []).map(link => link.trim()).filter(Boolean)));
+
+  return {
+    source: 'manual',
+    id: createHash('sha256').update(`${date}\n${achievement.toLowerCase()}`).digest('hex').substring(0, 12),
+    date,
+    achievement,
+    confidence: 1,
+    aiGenerated: false,
+    dataLocal: true,
+    impact,
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(links.length > 0 ? { links } : {}),
+  };
+}
+
+/**
+ * Parse a Markdown brag doc. Each bullet is an achievement, dated by the
+ * closest "## YYYY-MM-DD" (or "## YYYY-MM") heading above it or by a leading
+ * "YYYY-MM-DD:". "[high]" sets the impact, "#tag" adds a tag and URLs become
+ * links. Nested bullets add tags and links to their parent.
+ */
+export function parseBragDocMarkdown(content: string, source: string = 'brag doc'): ManualEntryInput[] {
+  const entries: ManualEntryInput[] = [];
+  let headingDate: string | undefined;
+  let current: ManualEntryInput | undefined;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    // Headings without a date ("## Mentoring") keep the date above them
+    if (/^#{1,6}\s/.test(line)) {
+      headingDate = line.match(DATE_HEADING)?.[1] ?? headingDate;
+      current = undefined;
+      return;
+    }
+
+    const bullet = line.match(BULLET);
+    if (!bullet) {
+      return;
+    }
+
+    let text = bullet[2];
+    const links: string[] = [];
+    text = text.replace(MARKDOWN_LINK, (_, label: string, url: string) => {
+      links.push(url);
+      return label;
+    });
+    text = text.replace(URL, url => {
+      links.push(url.replace(/^<|>$/g, ''));
+      return '';
+    });
+    const tags = Array.from(text.matchAll(TAG), match => match[2]);
+    text = text.replace(TAG, '$1');
+
+    // Nested bullets are details of the item above
+    if (bullet[1].length > 0 && current) {
+      current.tags = [...(current.tags || []), ...tags];
+      current.links = [...(current.links || []), ...links];
+      return;
+    }
+
+    const impact = text.match(IMPACT_MARKER)?.[1];
+    text = text.replace(IMPACT_MARKER, '');
+    const leadingDate = text.trim().match(LEADING_DATE);
+    const achievement = (leadingDate ? text.trim().substring(leadingDate[0].length) : text).trim().replace(/\s+/g, ' ');
+    if (!achievement) {
+      return;
+    }
+
+    const date = leadingDate?.[1] || headingDate;
+    if (!date) {
+      throw new Error(`${source}:${index + 1}: no date for "${achievement}" (add a "## YYYY-MM-DD" heading above it or start the item with a date)`);
+    }
+
+    current = { achievement, date, impact, tags, links };
+    entries.push(current);
+  });
+
+  return entries;
+}
+
+/**
+ * Read a brag doc: Markdown (.md), or a YAML/JSON list of entries with
+ * achievement, date and optional impact, tags and links
+ */
+export function readBragDoc(filePath: string): ManualEntryInput[] {
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf-8');
+  } catch (error: any) {
+    throw new Error(`Could not read brag doc ${filePath}: ${error.message}`);
+  }
+
+  const ext = extname(filePath).toLowerCase();
+  if (ext === '.md' || ext === '.markdown' || ext === '.txt') {
+    return parseBragDocMarkdown(content, filePath);
+  }
+
+  let data: unknown;
+  try {
+    data = ext === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error: any) {
+    throw new Error(`Could not read brag doc ${filePath}: ${error.message}`);
+  }
+
+  const result = BragDocSchema.safeParse(data ?? []);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid brag doc ${filePath}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * An empty log for `career-log add` before anything was generated
+ */
+export function createEmptyCareerLog(): CareerLog {
+  return {
+    generatedAt: new Date().toISOString(),
+    repository: '',
+    repositories: [],
+    totalCommits: 0,
+    entries: [],
+  };
+}
+
+/**
+ * Add manual entries to a log; an entry with the same date and text replaces
+ * the existing one (keeping its pin)
+ */
+export function addManualEntries(
+  log: CareerLog,
+  entries: CareerLogEntry[]
+): { log: CareerLog; added: number; updated: number } {
+  const byKey = new Map(log.entries.map(entry => [getEntryKey(entry), entry]));
+  let added = 0;
+  let updated = 0;
+
+  for (const entry of entries) {
+    const key = getEntryKey(entry);
+    const existing = byKey.get(key);
+    if (existing) {
+      updated++;
+      byKey.set(key, { ...entry, ...(existing.pinned ? { pinned: true } : {}) });
+    } else {
+      added++;
+      byKey.set(key, entry);
+    }
+  }
+
+  return {
+    log: { ...log, entries: sortEntries(Array.from(byKey.values())) },
+    added,
+    updated,
+  };
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import http from 'http';
+import net from 'net';
+import dns from 'dns';
+import { request as namedRequest } from 'http';
+import { installNetworkGuard, isNetworkGuardError, createComplianceRecord, NetworkGuard } from './network-guard.js';
+import { MockServer, sendJson, startMockServer } from '../test/mock-server.js';
+
+/**
+ * The error a call threw, synchronously or as a rejection
+ */
+async function errorOf(call: () => unknown): Promise<unknown> {
+  try {
+    await call();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+describe('installNetworkGuard', () => {
+  let guard: NetworkGuard | undefined;
+  let server: MockServer | undefined;
+
+  afterEach(async () => {
+    guard?.uninstall();
+    guard = undefined;
+    await server?.close();
+    server = undefined;
+  });
+
+  it('blocks fetch, http, net and DNS, and counts every attempt', async () => {
+    guard = installNetworkGuard();
+
+    const errors = [
+      await errorOf(() => fetch('https://api.example.com/v1')),
+      await errorOf(() => http.request('http://example.com/upload')),
+      await errorOf(() => namedRequest({ hostname: 'example.com', port: 8080 })),
+      await errorOf(() => net.connect(443, 'example.com')),
+      await errorOf(() => dns.lookup('example.com', () => {})),
+    ];
+
+    for (const error of errors) {
+      expect(isNetworkGuardError(error)).toBe(true);
+    }
+    expect((errors[0] as Error).message).toContain('Enterprise mode blocked a network request (fetch to https://api.example.com/v1)');
+    expect(guard.attempts).toEqual([
+      { api: 'fetch', target: 'https://api.example.com/v1' },
+      { api: 'http.request', target: 'http://example.com/upload' },
+      { api: 'http.request', target: 'example.com:8080' },
+      { api: 'net.connect', target: 'example.com:443' },
+      { api: 'dns.lookup', target: 'example.com' },
+    ]);
+    expect(createComplianceRecord(guard, {}).externalCalls).toBe(5);
+  });
+
+  it('records a clean run in the compliance record', () => {
+    guard = installNetworkGuard();
+
+    const record = createComplianceRecord(guard, { cache: false, prMetadata: 'prs.json' });
+    expect(record).toMatchObject({
+      mode: 'enterprise',
+      settings: { ai: false, prParsing: false, networkGuard: true, cache: false },
+      externalCalls: 0,
+    });
+    expect(record.guarantees).toContain('No pull request APIs were called; PR details come from commit messages and prs.json');
+  });
+
+  it('restores network access on uninstall', async () => {
+    server = await startMockServer((_, res) => sendJson(res, { ok: true }));
+    guard = installNetworkGuard();
+    expect(isNetworkGuardError(await errorOf(() => fetch(`${server!.url}/ping`)))).toBe(true);
+    expect(isNetworkGuardError(await errorOf(() => net.connect(Number(new URL(server!.url).port), '127.0.0.1')))).toBe(true);
+    guard.uninstall();
+    guard = undefined;
+
+    expect(await (await fetch(`${server.url}/ping`)).json()).toEqual({ ok: true });
+
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      namedRequest(`${server!.url}/ping`, res => {
+        res.resume();
+        resolve(res.statusCode);
+      }).on('error', reject).end();
+    });
+    expect(status).toBe(200);
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = net.connect(Number(new URL(server!.url).port), '127.0.0.1', () => {
+        socket.end();
+        resolve();
+      }).on('error', reject);
+    });
+
+    const address = await new Promise<string>((resolve, reject) => {
+      dns.lookup('localhost', (error, result) => error ? reject(error) : resolve(result));
+    });
+    expect(address).toBeTruthy();
+  });
+});
@@ -0,0 +1,125 @@
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import tls from 'tls';
+import dns from 'dns';
+import { syncBuiltinESMExports } from 'module';
+import { ComplianceRecord } from './output-formatter.js';
+
+export interface NetworkAttempt {
+  // The API that was called, e.g. "fetch" or "https.request"
+  api: string;
+  target: string;
+}
+
+export interface NetworkGuard {
+  // Every blocked attempt, in order
+  attempts: NetworkAttempt[];
+  uninstall(): void;
+}
+
+export type NetworkGuardError = Error & { networkGuard: true; attempt: NetworkAttempt };
+
+/**
+ * True for the error a guarded network call throws. Code that falls back on
+ * network failures must rethrow these so enterprise mode fails loudly.
+ */
+export function isNetworkGuardError(error: unknown): error is NetworkGuardError {
+  return !!error && (error as any).networkGuard === true;
+}
+
+/**
+ * Best-effort description of where a call was going
+ */
+function describeTarget(args: any[]): string {
+  const [first] = args;
+  if (typeof first === 'string' || first instanceof URL) {
+    return String(first);
+  }
+  if (typeof first === 'number') {
+    return `${typeof args[1] === 'string' ? args[1] : 'localhost'}:${first}`;
+  }
+  if (first && typeof first === 'object') {
+    if (typeof first.url === 'string') {
+      return first.url;
+    }
+    const host = first.hostname || first.host || first.path || 'unknown host';
+    return first.port ? `${host}:${first.port}` : String(host);
+  }
+  return 'unknown target';
+}
+
+/**
+ * Block all outbound network access from this process: fetch, http(s),
+ * net/tls sockets and DNS lookups throw instead of connecting. Used by
+ * enterprise mode so no code path can reach the network unnoticed.
+ */
+export function installNetworkGuard(): NetworkGuard {
+  const attempts: NetworkAttempt[] = [];
+  const restores: (() => void)[] = [];
+
+  const block = (api: string, args: any[]): never => {
+    const attempt = { api, target: describeTarget(args) };
+    attempts.push(attempt);
+    throw Object.assign(
+      new Error(`Enterprise mode blocked a network request (${api} to ${attempt.target}); no data may leave this machine`),
+      { networkGuard: true as const, attempt }
+    );
+  };
+
+  const patch = (target: any, key: string, api: string, async = false) => {
+    const original = target[key];
+    target[key] = async
+      ? (...args: any[]) => new Promise(() => block(api, args))
+      : (...args: any[]) => block(api, args);
+    restores.push(() => {
+      target[key] = original;
+    });
+  };
+
+  patch(globalThis, 'fetch', 'fetch', true);
+  patch(http, 'request', 'http.request');
+  patch(http, 'get', 'http.get');
+  patch(https, 'request', 'https.request');
+  patch(https, 'get', 'https.get');
+  patch(net, 'connect', 'net.connect');
+  patch(net, 'createConnection', 'net.createConnection');
+  patch(net.Socket.prototype, 'connect', 'net.Socket.connect');
+  patch(tls, 'connect', 'tls.connect');
+  patch(dns, 'lookup', 'dns.lookup');
+  patch(dns.promises, 'lookup', 'dns.promises.lookup', true);
+  // Named ESM imports of built-in modules don't see patches until synced
+  syncBuiltinESMExports();
+
+  return {
+    attempts,
+    uninstall() {
+      restores.reverse().forEach(restore => restore());
+      syncBuiltinESMExports();
+    },
+  };
+}
+
+/**
+ * What enterprise mode guaranteed for this run
+ */
+export function createComplianceRecord(guard: NetworkGuard, options: { cache?: boolean; prMetadata?: string }): ComplianceRecord {
+  return {
+    mode: 'enterprise',
+    settings: {
+      ai: false,
+      prParsing: false,
+      networkGuard: true,
+      cache: options.cache !== false,
+    },
+    guarantees: [
+      'No LLM provider was configured or called',
+      options.prMetadata
+        ? `No pull request APIs were called; PR details come from commit messages and ${options.prMetadata}`
+        : 'No pull request APIs were called; PR numbers come from commit messages only',
+      'fetch, http, https, net, tls and DNS lookups were blocked for the whole run',
+      'Only local git commands were run',
+    ],
+    externalCalls: guard.attempts.length,
+  };
+}
@@ -1,11 +1,46 @@
+import { PRInfo } from './pr-parser.js';
+import { ReviewState } from './review-activity.js';
+
 export interface CareerLogEntry {
+  // Authored commits when unset; 'review' for PRs the user reviewed
+  kind?: 'commit' | 'review';
+  // 'manual' for entries added with `career-log add`; these survive regeneration
+  source?: 'manual';
+  // Stable ID of a manual entry (from its date and text)
+  id?: string;
   date: string;
   achievement: string;
   confidence?: number;
   aiGenerated?: boolean;
   dataLocal?: boolean;
   impact: 'high' | 'medium' | 'low';
-  commit: string;
+  // Short hash; review entries have none
+  commit?: string;
+  // All commits combined into this achievement, when it covers more than one
+  commits?: string[];
+  repository?: string;
+  // The user's identity the commit was credited to, after .mailmap
+  identity?: string;
+  // Credited through a Co-authored-by trailer rather than as the author
+  coAuthored?: boolean;
+  component?: string;
+  // Ticket keys (e.g. PAY-1234) referenced by the commits
+  tickets?: string[];
+  // Marked as a breaking change (Conventional Commits "!" or BREAKING CHANGE footer)
+  breaking?: boolean;
+  // Review context of the pull/merge request (fetched with a token)
+  pr?: Omit<PRInfo, 'description'>;
+  // What the user did on a reviewed PR (review entries)
+  review?: {
+    // Full project path (owner/repo); older logs only have `repository`
+    project?: string;
+    states: ReviewState[];
+    comments: number;
+  };
+  pinned?: boolean;
+  tags?: string[];
+  // Design docs, incident reports, talk recordings, ...
+  links?: string[];
   filesChanged?: number;
   linesChanged?: number;
   signals?: string[];
@@ -15,51 +50,183 @@ export interface CareerLogEntry {
     filesModified: number;
     criticalFilesModified: number;
   };
+  // Ranking among this run's commits and whether the AI budget covered it
+  selection?: {
+    rank: number;
+    score: number;
+    ai?: 'granted' | 'cached' | 'over-budget';
+  };
+}
+
+export interface RepositorySummary {
+  name: string;
+  path: string;
+  totalCommits: number;
+  achievements: number;
+  linesChanged: number;
+  impact: {
+    high: number;
+    medium: number;
+    low: number;
+  };
+}
+
+// Written by enterprise mode so a security review can verify the run stayed offline
+export interface ComplianceRecord {
+  mode: 'enterprise';
+  settings: {
+    ai: false;
+    prParsing: false;
+    networkGuard: true;
+    cache: boolean;
+  };
+  guarantees: string[];
+  // Network calls made during the run; any attempt fails the run instead
+  externalCalls: number;
 }
 
 export interface CareerLog {
   generatedAt: string;
   repository: string;
+  repositories?: RepositorySummary[];
   totalCommits: number;
+  lastProcessed?: Record<string, { commit: string; date: string }>;
+  compliance?: ComplianceRecord;
   entries: CareerLogEntry[];
 }
 
+export type OutputFormat = 'json' | 'md' | 'csv' | 'html' | 'txt';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'md', 'csv', 'html', 'txt'];
+
+/**
+ * Check that a --format value is a supported output format
+ */
+export function isOutputFormat(format: string): format is OutputFormat {
+  return (OUTPUT_FORMATS as string[]).includes(format);
+}
+
+/**
+ * Throw a helpful error for unsupported --format values
+ */
+export function assertOutputFormat(format: string): OutputFormat {
+  if (!isOutputFormat(format)) {
+    throw new Error(`Unknown output format "${format}" (expected one of: ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  return format;
+}
+
 export function formatOutput(
   data: CareerLog,
-  format: 'json' | 'md'
+  format: OutputFormat
 ): string {
-  switch (format) {
+  switch (assertOutputFormat(format)) {
     case 'json':
       return JSON.stringify(data, null, 2);
 
     case 'md':
       return formatMarkdown(data);
 
-    default:
-      return JSON.stringify(data, null, 2);
+    case 'csv':
+      return formatCsv(data);
+
+    case 'html':
+      return formatHtml(data);
+
+    case 'txt':
+      return formatText(data);
   }
 }
 
+/**
+ * One-line compliance note for human-readable formats
+ */
+function describeCompliance(compliance: ComplianceRecord): string {
+  return `${compliance.mode} mode, ${compliance.externalCalls} external network calls`;
+}
+
+/**
+ * One-line summary of a PR's review story, e.g.
+ * "PR #12: reviewed by alice, bob; 2 review rounds; merged in 5.5h"
+ */
+function describePR(pr: NonNullable<CareerLogEntry['pr']>): string {
+  const parts = [
+    pr.reviewers && pr.reviewers.length > 0 ? `reviewed by ${pr.reviewers.join(', ')}` : '',
+    pr.reviewRounds ? `${pr.reviewRounds} review round${pr.reviewRounds !== 1 ? 's' : ''}` : '',
+    pr.comments ? `${pr.comments} comment${pr.comments !== 1 ? 's' : ''}` : '',
+    pr.labels && pr.labels.length > 0 ? `labels: ${pr.labels.join(', ')}` : '',
+    pr.linkedIssues && pr.linkedIssues.length > 0 ? `issues: ${pr.linkedIssues.map(n => `#${n}`).join(', ')}` : '',
+    pr.timeToMergeHours !== undefined ? `merged in ${pr.timeToMergeHours}h` : '',
+    pr.crossTeam ? 'cross-team' : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? `PR #${pr.number}: ${parts.join('; ')}` : `PR #${pr.number}`;
+}
+
+/**
+ * Calendar day of an entry (git dates look like "2025-11-13 22:32:25 -0500")
+ */
+function getEntryDay(entry: CareerLogEntry): string {
+  return entry.date.split(/[T ]/)[0];
+}
+
+/**
+ * Group entries by day, newest first
+ */
+function groupByDay(entries: CareerLogEntry[]): [string, CareerLogEntry[]][] {
+  const byDay = entries.reduce((acc, entry) => {
+    const day = getEntryDay(entry);
+    if (!acc[day]) acc[day] = [];
+    acc[day].push(entry);
+    return acc;
+  }, {} as Record<string, CareerLogEntry[]>);
+  return Object.entries(byDay).sort(([a], [b]) => b.localeCompare(a));
+}
+
 function formatMarkdown(data: CareerLog): string {
+  const multiRepo = (data.repositories?.length || 0) > 1;
+
   let output = `# Career Log\n\n`;
-  output += `**Repository:** ${data.repository}\n`;
+  if (multiRepo) {
+    output += `**Repositories:** ${data.repositories!.length}\n`;
+  } else {
+    output += `**Repository:** ${data.repository}\n`;
+  }
   output += `**Generated:** ${data.generatedAt}\n`;
-  output += `**Total Commits:** ${data.totalCommits}\n\n`;
-  output += `---\n\n`;
+  output += `**Total Commits:** ${data.totalCommits}\n`;
+  if (data.compliance) {
+    output += `**Compliance:** ${describeCompliance(data.compliance)}\n`;
+  }
+  output += `\n`;
 
-  // Group by date
-  const byDate = data.entries.reduce((acc, entry) => {
-    const date = entry.date.split('T')[0];
-    if (!acc[date]) acc[date] = [];
-    acc[date].push(entry);
-    return acc;
-  }, {} as Record<string, CareerLogEntry[]>);
+  if (multiRepo) {
+    output += `| Repository | Commits | Achievements | High | Medium | Low | Lines |\n`;
+    output += `|------------|---------|--------------|------|--------|-----|-------|\n`;
+    for (const repo of data.repositories!) {
+      output += `| ${repo.name} | ${repo.totalCommits} | ${repo.achievements} | ${repo.impact.high} | ${repo.impact.medium} | ${repo.impact.low} | ${repo.linesChanged} |\n`;
+    }
+    output += `\n`;
+  }
+
+  output += `---\n\n`;
 
-  for (const [date, entries] of Object.entries(byDate).sort().reverse()) {
-    output += `## ${date}\n\n`;
+  for (const [day, entries] of groupByDay(data.entries)) {
+    output += `## ${day}\n\n`;
     for (const entry of entries) {
       const impactBadge = entry.impact === 'high' ? '🔥' : entry.impact === 'medium' ? '⭐' : '📝';
-      output += `- ${impactBadge} **${entry.achievement}**\n`;
+      const repoTag = multiRepo && entry.repository ? `\`${entry.repository}\` ` : '';
+      output += `- ${impactBadge} ${repoTag}**${entry.achievement}**${entry.breaking ? ' (breaking change)' : ''}${entry.coAuthored ? ' (co-authored)' : ''}\n`;
+      if (entry.tickets && entry.tickets.length > 0) {
+        output += `  - Tickets: ${entry.tickets.join(', ')}\n`;
+      }
+      if (entry.pr && entry.kind !== 'review') {
+        output += `  - ${describePR(entry.pr)}\n`;
+      }
+      if (entry.tags && entry.tags.length > 0) {
+        output += `  - Tags: ${entry.tags.join(', ')}\n`;
+      }
+      for (const link of entry.links || []) {
+        output += `  - <${link}>\n`;
+      }
       if (entry.filesChanged || entry.linesChanged) {
         output += `  - Files: ${entry.filesChanged || 0}, Lines: ${entry.linesChanged || 0}\n`;
       }
@@ -77,4 +244,248 @@ function formatMarkdown(data: CareerLog): string {
   }
 
   return output;
-}
\ No newline at end of file
+}
+
+const CSV_COLUMNS = [
+  'date',
+  'repository',
+  'kind',
+  'source',
+  'commit',
+  'commits',
+  'identity',
+  'coAuthored',
+  'tickets',
+  'pr',
+  'reviewers',
+  'reviewRounds',
+  'labels',
+  'timeToMergeHours',
+  'crossTeam',
+  'impact',
+  'achievement',
+  'confidence',
+  'aiGenerated',
+  'dataLocal',
+  'pinned',
+  'tags',
+  'links',
+  'filesChanged',
+  'linesChanged',
+  'totalLines',
+  'filesModified',
+  'criticalFilesModified',
+  'fileTypes',
+  'signals',
+];
+
+/**
+ * Quote a CSV field when it contains separators, quotes or newlines
+ */
+function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatCsv(data: CareerLog): string {
+  const rows = data.entries.map(entry => [
+    entry.date,
+    entry.repository,
+    entry.kind || (entry.source ? '' : 'commit'),
+    entry.source,
+    entry.commit,
+    (entry.commits || []).join('; '),
+    entry.identity,
+    entry.coAuthored,
+    (entry.tickets || []).join('; '),
+    entry.pr?.number,
+    (entry.pr?.reviewers || []).join('; '),
+    entry.pr?.reviewRounds,
+    (entry.pr?.labels || []).join('; '),
+    entry.pr?.timeToMergeHours,
+    entry.pr?.crossTeam,
+    entry.impact,
+    entry.achievement,
+    entry.confidence,
+    entry.aiGenerated,
+    entry.dataLocal,
+    entry.pinned,
+    (entry.tags || []).join('; '),
+    (entry.links || []).join('; '),
+    entry.filesChanged,
+    entry.linesChanged,
+    entry.changeMetrics?.totalLines,
+    entry.changeMetrics?.filesModified,
+    entry.changeMetrics?.criticalFilesModified,
+    (entry.fileTypes || []).join('; '),
+    (entry.signals || []).join('; '),
+  ].map(escapeCsv).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function formatText(data: CareerLog): string {
+  const multiRepo = (data.repositories?.length || 0) > 1;
+  const lines: string[] = [
+    'CAREER LOG',
+    '',
+    multiRepo
+      ? `Repositories: ${data.repositories!.map(r => r.name).join(', ')}`
+      : `Repository: ${data.repository}`,
+    `Generated: ${data.generatedAt}`,
+    `Total commits: ${data.totalCommits}`,
+  ];
+  if (data.compliance) {
+    lines.push(`Compliance: ${describeCompliance(data.compliance)}`);
+  }
+
+  for (const [day, entries] of groupByDay(data.entries)) {
+    lines.push('', day);
+    for (const entry of entries) {
+      const repoTag = multiRepo && entry.repository ? ` (${entry.repository})` : '';
+      lines.push(`  [${entry.impact.toUpperCase()}] ${entry.achievement}${repoTag}${entry.breaking ? ' (breaking change)' : ''}${entry.coAuthored ? ' (co-authored)' : ''}`);
+      if (entry.tickets && entry.tickets.length > 0) {
+        lines.push(`      tickets: ${entry.tickets.join(', ')}`);
+      }
+      if (entry.pr && entry.kind !== 'review') {
+        lines.push(`      ${describePR(entry.pr)}`);
+      }
+      if (entry.tags && entry.tags.length > 0) {
+        lines.push(`      tags: ${entry.tags.join(', ')}`);
+      }
+      for (const link of entry.links || []) {
+        lines.push(`      ${link}`);
+      }
+      if (entry.filesChanged || entry.linesChanged) {
+        lines.push(`      files: ${entry.filesChanged || 0}, lines: ${entry.linesChanged || 0}, ${entry.commits ? `commits: ${entry.commits.join(', ')}` : entry.commit ? `commit: ${entry.commit}` : 'review'}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Escape text for HTML element content and attribute values
+ */
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Inline styles and script keep the report a single self-contained file
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2rem auto; max-width: 960px; color: #1f2328; padding: 0 1rem; }
+h1 { margin-bottom: 0.25rem; }
+.meta { color: #59636e; margin-bottom: 1.5rem; }
+.filters { display: flex; gap: 1.5rem; flex-wrap: wrap; padding: 0.75rem 1rem; background: #f6f8fa; border-radius: 6px; margin-bottom: 1.5rem; }
+.filters label { margin-right: 0.75rem; }
+h2 { font-size: 1rem; color: #59636e; border-bottom: 1px solid #d1d9e0; padding-bottom: 0.25rem; }
+.entry { padding: 0.5rem 0; }
+.entry .details { color: #59636e; font-size: 0.85rem; }
+.badge { display: inline-block; font-size: 0.75rem; font-weight: 600; padding: 0.1rem 0.5rem; border-radius: 1rem; margin-right: 0.5rem; }
+.badge.high { background: #ffebe9; color: #d1242f; }
+.badge.medium { background: #fff8c5; color: #9a6700; }
+.badge.low { background: #ddf4ff; color: #0969da; }
+.repo { font-family: monospace; font-size: 0.8rem; background: #f6f8fa; padding: 0.1rem 0.4rem; border-radius: 4px; margin-right: 0.5rem; }
+.hidden { display: none; }
+`;
+
+const HTML_SCRIPT = `
+function applyFilters() {
+  var impacts = Array.prototype.map.call(document.querySelectorAll('input[name=impact]:checked'), function (el) { return el.value; });
+  var fileType = document.getElementById('fileType').value;
+  document.querySelectorAll('.entry').forEach(function (entry) {
+    var types = entry.getAttribute('data-file-types').split('|');
+    var visible = impacts.indexOf(entry.getAttribute('data-impact')) !== -1 && (!fileType || types.indexOf(fileType) !== -1);
+    entry.classList.toggle('hidden', !visible);
+  });
+  document.querySelectorAll('section.day').forEach(function (day) {
+    day.classList.toggle('hidden', !day.querySelector('.entry:not(.hidden)'));
+  });
+}
+document.querySelectorAll('.filters input, .filters select').forEach(function (el) { el.addEventListener('change', applyFilters); });
+`;
+
+function formatHtml(data: CareerLog): string {
+  const multiRepo = (data.repositories?.length || 0) > 1;
+  const fileTypes = Array.from(new Set(data.entries.flatMap(e => e.fileTypes || []))).sort();
+  const counts = {
+    high: data.entries.filter(e => e.impact === 'high').length,
+    medium: data.entries.filter(e => e.impact === 'medium').length,
+    low: data.entries.filter(e => e.impact === 'low').length,
+  };
+
+  const days = groupByDay(data.entries).map(([day, entries]) => {
+    const items = entries.map(entry => {
+      const details = [
+        entry.source === 'manual' ? '' : `Files: ${entry.filesChanged || 0}, Lines: ${entry.linesChanged || 0}`,
+        entry.fileTypes && entry.fileTypes.length > 0 ? `File types: ${entry.fileTypes.join(', ')}` : '',
+        entry.commits ? `Commits: ${entry.commits.join(', ')}` : entry.commit ? `Commit: ${entry.commit}` : '',
+        entry.tickets && entry.tickets.length > 0 ? `Tickets: ${entry.tickets.join(', ')}` : '',
+        entry.breaking ? 'Breaking change' : '',
+        entry.coAuthored ? 'Co-authored' : '',
+        entry.pr && entry.kind !== 'review' ? describePR(entry.pr) : '',
+        entry.tags && entry.tags.length > 0 ? `Tags: ${entry.tags.join(', ')}` : '',
+      ].filter(Boolean).map(escapeHtml).join(' &middot; ');
+      // Only web links become anchors; anything else stays text
+      const links = (entry.links || []).map(link => /^https?:\/\//i.test(link)
+        ? `<a href="${escapeHtml(link)}">${escapeHtml(link)}</a>`
+        : escapeHtml(link));
+
+      const impact = escapeHtml(entry.impact);
+      return `    <div class="entry" data-impact="${impact}" data-file-types="${escapeHtml((entry.fileTypes || []).join('|'))}">
+      <div><span class="badge ${impact}">${impact}</span>${multiRepo && entry.repository ? `<span class="repo">${escapeHtml(entry.repository)}</span>` : ''}${escapeHtml(entry.achievement)}</div>
+      <div class="details">${[details, ...links].filter(Boolean).join(' &middot; ')}</div>
+    </div>`;
+    }).join('\n');
+
+    return `  <section class="day">
+    <h2>${escapeHtml(day)}</h2>
+${items}
+  </section>`;
+  }).join('\n');
+
+  const repository = multiRepo
+    ? data.repositories!.map(r => r.name).join(', ')
+    : data.repository;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Career Log</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+  <h1>Career Log</h1>
+  <div class="meta">${escapeHtml(repository)} &middot; ${data.totalCommits} commits &middot; ${data.entries.length} achievements &middot; generated ${escapeHtml(data.generatedAt)}${data.compliance ? ` &middot; ${escapeHtml(describeCompliance(data.compliance))}` : ''}</div>
+  <div class="filters">
+    <div>
+      <strong>Impact:</strong>
+      <label><input type="checkbox" name="impact" value="high" checked> High (${counts.high})</label>
+      <label><input type="checkbox" name="impact" value="medium" checked> Medium (${counts.medium})</label>
+      <label><input type="checkbox" name="impact" value="low" checked> Low (${counts.low})</label>
+    </div>
+    <div>
+      <strong>File type:</strong>
+      <select id="fileType">
+        <option value="">All</option>
+${fileTypes.map(type => `        <option value="${escapeHtml(type)}">${escapeHtml(type)}</option>`).join('\n')}
+      </select>
+    </div>
+  </div>
+${days}
+<script>${HTML_SCRIPT}</script>
+</body>
+</html>
+`;
+}
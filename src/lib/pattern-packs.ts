@@ -0,0 +1,196 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, extname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Bundled pack shipped in the package's `patterns` directory
+const DEFAULT_PACK_PATH = join(__dirname, '../../patterns/default.json');
+
+// File names looked up in `<repo>/.career-log/` and `~/.career-log/`
+const PACK_FILE_NAMES = ['patterns.json', 'patterns.yaml', 'patterns.yml'];
+
+const regexSource = z.string().refine((source) => {
+  try {
+    new RegExp(source, 'i');
+    return true;
+  } catch (error) {
+    return false;
+  }
+}, { message: 'Invalid regular expression' });
+
+export const PatternPackSchema = z.object({
+  name: z.string().optional(),
+  components: z.record(z.string(), z.array(regexSource)).optional(),
+  actions: z.record(z.string(), z.object({
+    label: z.string().optional(),
+    keywords: z.array(z.string()),
+  })).optional(),
+  achievements: z.record(z.string(), z.object({
+    keywords: z.array(z.string()),
+    template: z.string().optional(),
+  })).optional(),
+  criticalFiles: z.array(regexSource).optional(),
+  fileTypes: z.record(z.string(), z.array(regexSource)).optional(),
+}).strict();
+
+export type PatternPack = z.infer<typeof PatternPackSchema>;
+
+export interface PatternSet {
+  components: Record<string, RegExp[]>;
+  actions: Record<string, { label: string; keywords: string[] }>;
+  achievements: Record<string, { keywords: string[]; template?: string }>;
+  criticalFiles: RegExp[];
+  fileTypes: Record<string, RegExp[]>;
+  sources: string[];
+  fingerprint: string;
+}
+
+let defaultPatterns: PatternSet | null = null;
+
+/**
+ * Read and validate a pattern pack file (JSON or YAML)
+ */
+export function readPatternPack(filePath: string): PatternPack {
+  let data: unknown;
+  try {
+    const content = readFileSync(filePath, 'utf-8');
+    const ext = extname(filePath).toLowerCase();
+    data = ext === '.yaml' || ext === '.yml' ? parseYaml(content) : JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`Could not read pattern pack ${filePath}: ${error.message}`);
+  }
+
+  const result = PatternPackSchema.safeParse(data ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid pattern pack ${filePath}: ${issues}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Merge packs in order. Lists under the same key are combined; achievement
+ * patterns from later packs are checked before earlier ones so custom
+ * phrasing wins over the defaults.
+ */
+export function mergePatternPacks(packs: PatternPack[]): PatternPack {
+  const merged: Required<Omit<PatternPack, 'name'>> = {
+    components: {},
+    actions: {},
+    achievements: {},
+    criticalFiles: [],
+    fileTypes: {},
+  };
+
+  const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+
+  for (const pack of packs) {
+    for (const [key, patterns] of Object.entries(pack.components || {})) {
+      merged.components[key] = union(merged.components[key], patterns);
+    }
+    for (const [key, action] of Object.entries(pack.actions || {})) {
+      const existing = merged.actions[key];
+      merged.actions[key] = {
+        label: action.label || existing?.label,
+        keywords: union(existing?.keywords, action.keywords),
+      };
+    }
+    const achievements: PatternPack['achievements'] = { ...(pack.achievements || {}) };
+    for (const [key, achievement] of Object.entries(merged.achievements)) {
+      if (!achievements[key]) {
+        achievements[key] = achievement;
+      } else if (!achievements[key].template && achievement.template) {
+        achievements[key] = { ...achievements[key], template: achievement.template };
+      }
+    }
+    merged.achievements = achievements;
+    merged.criticalFiles = union(merged.criticalFiles, pack.criticalFiles);
+    for (const [key, patterns] of Object.entries(pack.fileTypes || {})) {
+      merged.fileTypes[key] = union(merged.fileTypes[key], patterns);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Compile a merged pack into regular expressions ready for matching
+ */
+function compilePatternPack(pack: PatternPack, sources: string[]): PatternSet {
+  const compile = (patterns: string[]) => patterns.map(source => new RegExp(source, 'i'));
+  const compileRecord = (record: Record<string, string[]> = {}) =>
+    Object.fromEntries(Object.entries(record).map(([key, patterns]) => [key, compile(patterns)]));
+
+  return {
+    components: compileRecord(pack.components),
+    actions: Object.fromEntries(Object.entries(pack.actions || {}).map(([key, action]) => [
+      key,
+      { label: action.label || key, keywords: action.keywords },
+    ])),
+    achievements: pack.achievements || {},
+    criticalFiles: compile(pack.criticalFiles || []),
+    fileTypes: compileRecord(pack.fileTypes),
+    sources,
+    fingerprint: createHash('sha256').update(JSON.stringify(pack)).digest('hex').substring(0, 16),
+  };
+}
+
+/**
+ * Find the first pattern pack file in a `.career-log` directory
+ */
+function findPackFile(baseDir: string): string | null {
+  for (const fileName of PACK_FILE_NAMES) {
+    const filePath = join(baseDir, '.career-log', fileName);
+    if (existsSync(filePath)) {
+      return filePath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Patterns bundled with the package
+ */
+export function getDefaultPatterns(): PatternSet {
+  if (!defaultPatterns) {
+    defaultPatterns = compilePatternPack(readPatternPack(DEFAULT_PACK_PATH), [DEFAULT_PACK_PATH]);
+  }
+  return defaultPatterns;
+}
+
+/**
+ * Load the package pack, then the repository pack, then the user pack
+ * (and an explicit --patterns file last), merged in that order
+ */
+export function loadPatternPacks(repoPath?: string, extraPackPath?: string): PatternSet {
+  const files = [DEFAULT_PACK_PATH];
+
+  const repoPack = repoPath ? findPackFile(repoPath) : null;
+  if (repoPack) {
+    files.push(repoPack);
+  }
+
+  const userPack = findPackFile(homedir());
+  if (userPack && userPack !== repoPack) {
+    files.push(userPack);
+  }
+
+  if (extraPackPath) {
+    files.push(resolve(extraPackPath));
+  }
+
+  if (files.length === 1) {
+    return getDefaultPatterns();
+  }
+
+  return compilePatternPack(mergePatternPacks(files.map(readPatternPack)), files);
+}
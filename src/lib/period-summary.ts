@@ -0,0 +1,219 @@
+import { CareerLog, CareerLogEntry } from './output-formatter.js';
+import { countBy } from './log-stats.js';
+
+export type SummaryPeriod = 'week' | 'month' | 'quarter' | 'half';
+
+export const SUMMARY_PERIODS: SummaryPeriod[] = ['week', 'month', 'quarter', 'half'];
+
+export interface PeriodHighlight {
+  date: string;
+  achievement: string;
+  impact: CareerLogEntry['impact'];
+  repository?: string;
+  commit?: string;
+}
+
+export interface PeriodSummary {
+  period: string;
+  start: string;
+  end: string;
+  achievements: number;
+  linesChanged: number;
+  impact: {
+    high: number;
+    medium: number;
+    low: number;
+  };
+  repositories: Record<string, number>;
+  components: Record<string, number>;
+  fileTypes: Record<string, number>;
+  highlights: PeriodHighlight[];
+}
+
+const IMPACT_RANK: Record<CareerLogEntry['impact'], number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+/**
+ * Format a UTC date as YYYY-MM-DD
+ */
+function toDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Calendar day an entry was recorded on, in the author's own timezone
+ * (git dates look like "2025-11-13 22:32:25 -0500")
+ */
+function getEntryDate(entry: CareerLogEntry): Date | null {
+  const match = entry.date.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) {
+    return null;
+  }
+  return new Date(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])));
+}
+
+/**
+ * Bucket key and date range of the period containing a day
+ */
+function getPeriodBucket(date: Date, period: SummaryPeriod): { key: string; start: Date; end: Date } {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (period) {
+    case 'week': {
+      // ISO week: weeks start on Monday, week 1 contains the year's first Thursday
+      const dayOfWeek = (date.getUTCDay() + 6) % 7;
+      const start = new Date(date.getTime() - dayOfWeek * 86400000);
+      const thursday = new Date(start.getTime() + 3 * 86400000);
+      const weekYear = thursday.getUTCFullYear();
+      const january4 = new Date(Date.UTC(weekYear, 0, 4));
+      const firstMonday = january4.getTime() - ((january4.getUTCDay() + 6) % 7) * 86400000;
+      const week = 1 + Math.round((start.getTime() - firstMonday) / (7 * 86400000));
+      return {
+        key: `${weekYear}-W${String(week).padStart(2, '0')}`,
+        start,
+        end: new Date(start.getTime() + 6 * 86400000),
+      };
+    }
+    case 'month':
+      return {
+        key: `${year}-${String(month + 1).padStart(2, '0')}`,
+        start: new Date(Date.UTC(year, month, 1)),
+        end: new Date(Date.UTC(year, month + 1, 0)),
+      };
+    case 'quarter': {
+      const quarter = Math.floor(month / 3);
+      return {
+        key: `${year}-Q${quarter + 1}`,
+        start: new Date(Date.UTC(year, quarter * 3, 1)),
+        end: new Date(Date.UTC(year, quarter * 3 + 3, 0)),
+      };
+    }
+    case 'half': {
+      const half = month < 6 ? 0 : 1;
+      return {
+        key: `${year}-H${half + 1}`,
+        start: new Date(Date.UTC(year, half * 6, 1)),
+        end: new Date(Date.UTC(year, half * 6 + 6, 0)),
+      };
+    }
+  }
+}
+
+/**
+ * Bucket career log entries by period, newest period first
+ */
+export function summarizeByPeriod(
+  log: CareerLog,
+  period: SummaryPeriod,
+  options: { highlights?: number } = {}
+): PeriodSummary[] {
+  if (!SUMMARY_PERIODS.includes(period)) {
+    throw new Error(`Unknown period "${period}" (expected one of: ${SUMMARY_PERIODS.join(', ')})`);
+  }
+
+  const highlightCount = options.highlights ?? 3;
+  const buckets = new Map<string, { start: Date; end: Date; entries: CareerLogEntry[] }>();
+
+  for (const entry of log.entries) {
+    const date = getEntryDate(entry);
+    if (!date) {
+      continue;
+    }
+    const { key, start, end } = getPeriodBucket(date, period);
+    const bucket = buckets.get(key) || { start, end, entries: [] };
+    bucket.entries.push(entry);
+    buckets.set(key, bucket);
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([key, { start, end, entries }]) => ({
+      period: key,
+      start: toDay(start),
+      end: toDay(end),
+      achievements: entries.length,
+      linesChanged: entries.reduce((sum, e) => sum + (e.linesChanged || 0), 0),
+      impact: {
+        high: entries.filter(e => e.impact === 'high').length,
+        medium: entries.filter(e => e.impact === 'medium').length,
+        low: entries.filter(e => e.impact === 'low').length,
+      },
+      repositories: countBy(entries, e => e.repository ? [e.repository] : []),
+      components: countBy(entries, e => e.component ? [e.component] : []),
+      fileTypes: countBy(entries, e => e.fileTypes || []),
+      highlights: [...entries]
+        .sort((a, b) =>
+          IMPACT_RANK[b.impact] - IMPACT_RANK[a.impact] ||
+          (b.confidence ?? 0) - (a.confidence ?? 0) ||
+          (b.linesChanged || 0) - (a.linesChanged || 0))
+        .slice(0, highlightCount)
+        .map(e => ({
+          date: e.date,
+          achievement: e.achievement,
+          impact: e.impact,
+          repository: e.repository,
+          commit: e.commit,
+        })),
+    }));
+}
+
+/**
+ * "TypeScript (8), Python (3)" for the top entries of a count table
+ */
+function formatCounts(counts: Record<string, number>, limit: number = 5): string {
+  return Object.entries(counts)
+    .slice(0, limit)
+    .map(([key, count]) => `${key} (${count})`)
+    .join(', ');
+}
+
+const PERIOD_TITLES: Record<SummaryPeriod, string> = {
+  week: 'Week',
+  month: 'Month',
+  quarter: 'Quarter',
+  half: 'Half-Year',
+};
+
+export function formatPeriodSummariesMarkdown(summaries: PeriodSummary[], period: SummaryPeriod): string {
+  let output = `# Career Summary by ${PERIOD_TITLES[period]}\n\n`;
+
+  for (const summary of summaries) {
+    output += `## ${summary.period} (${summary.start} – ${summary.end})\n\n`;
+    output += `**${summary.achievements} achievement${summary.achievements !== 1 ? 's' : ''}** · `;
+    output += `🔥 ${summary.impact.high} high · ⭐ ${summary.impact.medium} medium · 📝 ${summary.impact.low} low · `;
+    output += `${summary.linesChanged.toLocaleString('en-US')} lines changed\n\n`;
+
+    if (summary.highlights.length > 0) {
+      output += `**Highlights**\n\n`;
+      for (const highlight of summary.highlights) {
+        const badge = highlight.impact === 'high' ? '🔥' : highlight.impact === 'medium' ? '⭐' : '📝';
+        const repo = Object.keys(summary.repositories).length > 1 && highlight.repository
+          ? ` (\`${highlight.repository}\`)`
+          : '';
+        output += `- ${badge} ${highlight.achievement}${repo}\n`;
+      }
+      output += `\n`;
+    }
+
+    if (Object.keys(summary.repositories).length > 1) {
+      output += `- **Repositories:** ${formatCounts(summary.repositories)}\n`;
+    }
+    if (Object.keys(summary.components).length > 0) {
+      output += `- **Components:** ${formatCounts(summary.components)}\n`;
+    }
+    if (Object.keys(summary.fileTypes).length > 0) {
+      output += `- **File types:** ${formatCounts(summary.fileTypes)}\n`;
+    }
+    output += `\n`;
+  }
+
+  return output;
+}
+
+export function formatPeriodSummariesJson(summaries: PeriodSummary[], period: SummaryPeriod): string {
+  return JSON.stringify({ period, summaries }, null, 2);
+}
@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { PRInfo } from './pr-parser.js';
+
+const LabelSchema = z.union([z.string(), z.object({ name: z.string() }).passthrough()]);
+
+const UserSchema = z.union([
+  z.string(),
+  z.object({ login: z.string().optional(), username: z.string().optional() }).passthrough(),
+]);
+
+// One PR as written by `gh pr list --json`, the GitLab merge request API or
+// export, or the plain documented schema. Unknown fields are ignored.
+const PRRecordFields = z.object({
+  number: z.number().int().positive().optional(),
+  iid: z.number().int().positive().optional(),
+  title: z.string(),
+  body: z.string().nullish(),
+  description: z.string().nullish(),
+  labels: z.array(LabelSchema).nullish(),
+  url: z.string().nullish(),
+  web_url: z.string().nullish(),
+  author: UserSchema.nullish(),
+  reviews: z.array(z.object({ author: UserSchema.nullish() }).passthrough()).nullish(),
+  createdAt: z.string().nullish(),
+  created_at: z.string().nullish(),
+  mergedAt: z.string().nullish(),
+  merged_at: z.string().nullish(),
+}).passthrough();
+
+const PRRecordSchema = PRRecordFields.refine(record => record.number || record.iid, {
+  message: 'needs "number" (GitHub) or "iid" (GitLab)',
+});
+
+// A list of PRs, or an object keyed by PR number
+const PRMetadataFileSchema = z.union([
+  z.array(PRRecordSchema),
+  z.record(z.string().regex(/^\d+$/, 'keys must be PR numbers'), PRRecordFields),
+]);
+
+type PRRecord = z.infer<typeof PRRecordFields>;
+
+export interface PRMetadata {
+  source: string;
+  // Changes when the file's PRs change, for cache keys
+  fingerprint: string;
+  pullRequests: PRInfo[];
+}
+
+function getUserName(user: PRRecord['author']): string | undefined {
+  return typeof user === 'string' ? user : user?.login || user?.username || undefined;
+}
+
+function toPRInfo(record: PRRecord, number: number): PRInfo {
+  const author = getUserName(record.author);
+  const reviewers = Array.from(new Set((record.reviews || [])
+    .map(review => getUserName(review.author))
+    .filter((name): name is string => !!name && name !== author)));
+  const createdAt = record.createdAt || record.created_at || undefined;
+  const mergedAt = record.mergedAt || record.merged_at || undefined;
+  const hours = createdAt && mergedAt
+    ? (new Date(mergedAt).getTime() - new Date(createdAt).getTime()) / 3600000
+    : NaN;
+
+  return {
+    number,
+    title: record.title,
+    description: record.body || record.description || undefined,
+    url: record.url || record.web_url || undefined,
+    author,
+    ...(record.reviews ? { reviewers } : {}),
+    ...(record.labels ? { labels: record.labels.map(label => typeof label === 'string' ? label : label.name) } : {}),
+    createdAt,
+    mergedAt,
+    timeToMergeHours: isNaN(hours) ? undefined : Math.round(hours * 10) / 10,
+  };
+}
+
+/**
+ * Read exported PR details: `gh pr list --json number,title,body,labels,url`
+ * output, GitLab merge requests (API JSON or an export's NDJSON), or a plain
+ * JSON/YAML list or map of PRs. Nothing is fetched.
+ */
+export function loadPRMetadata(filePath: string): PRMetadata {
+  let data: unknown;
+  try {
+    const content = readFileSync(filePath, 'utf-8');
+    const ext = extname(filePath).toLowerCase();
+    if (ext === '.yaml' || ext === '.yml') {
+      data = parseYaml(content);
+    } else if (ext === '.ndjson' || ext === '.jsonl') {
+      data = content.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+    } else {
+      data = JSON.parse(content);
+    }
+  } catch (error: any) {
+    throw new Error(`Could not read PR metadata ${filePath}: ${error.message}`);
+  }
+
+  const result = PRMetadataFileSchema.safeParse(data ?? []);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid PR metadata ${filePath}: ${issues}`);
+  }
+
+  const pullRequests = Array.isArray(result.data)
+    ? result.data.map(record => toPRInfo(record, (record.number || record.iid)!))
+    : Object.entries(result.data).map(([number, record]) => toPRInfo(record, Number(number)));
+
+  return {
+    source: filePath,
+    fingerprint: createHash('sha256').update(JSON.stringify(pullRequests)).digest('hex').substring(0, 16),
+    pullRequests,
+  };
+}
+
+/**
+ * Details for a PR number. With a project path (owner/repo or group/project),
+ * PRs whose URL names another project are skipped, so one export can cover
+ * several repositories.
+ */
+export function findPRMetadata(metadata: PRMetadata, number: number, projectPath?: string): PRInfo | undefined {
+  const project = projectPath ? `/${projectPath.toLowerCase()}/` : undefined;
+  const candidates = metadata.pullRequests.filter(pr => pr.number === number);
+  return candidates.find(pr => project && pr.url?.toLowerCase().includes(project)) ||
+    candidates.find(pr => !project || !pr.url);
+}
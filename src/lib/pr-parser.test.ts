@@ -0,0 +1,257 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { extractReferences, parseRepoRemote, parseGitHosts, fetchAllPages, fetchPRFromGitHub, fetchPRFromGitLab } from './pr-parser.js';
+import { MockServer, MockHandler, sendJson, startMockServer } from '../test/mock-server.js';
+
+describe('extractReferences', () => {
+  it.each([
+    ['GitHub merge commit', 'Merge pull request #12 from acme/feature-login', undefined, { number: 12, platform: 'github' }],
+    ['GitHub squash merge', 'Add login flow (#12)', undefined, { number: 12 }],
+    ['GitLab merge commit', "Merge branch 'feature' into 'main'", 'Add login flow\n\nSee merge request acme/platform/shop!12', { number: 12, platform: 'gitlab', project: 'acme/platform/shop' }],
+    ['GitLab squash merge', 'Add login flow (!12)', undefined, { number: 12, platform: 'gitlab' }],
+    ['Bitbucket merge commit', 'Merged in feature/login (pull request #12)', undefined, { number: 12, platform: 'bitbucket' }],
+    ['Azure DevOps merge commit', 'Merged PR 12: Add login flow', undefined, { number: 12, platform: 'azure' }],
+  ])('recognizes a %s', (_, subject, body, pr) => {
+    expect(extractReferences(subject, body).pr).toEqual(pr);
+  });
+
+  it.each([
+    ['PR #12', 'Follow-up to PR #12'],
+    ['PR#12', 'Follow-up to PR#12'],
+    ['PR-12', 'Follow-up to PR-12'],
+    ['PR: #12', 'PR: #12 review fixes'],
+    ['pull request #12', 'Address review on pull request #12'],
+    ['merge request !12', 'Address review on merge request !12'],
+  ])('recognizes an explicit "%s"', (_, subject) => {
+    expect(extractReferences(subject).pr?.number).toBe(12);
+  });
+
+  it.each([
+    'Update PR 2024 roadmap',
+    'Draft pull request 3 of the migration',
+    'Merge request 5 needs a rebase',
+    'Fix #1 priority bug',
+    'Use #123456 for the header',
+    'Add login flow #12',
+  ])('finds no PR in "%s"', (subject) => {
+    expect(extractReferences(subject).pr).toBeUndefined();
+  });
+
+  it('keeps issue references apart from the PR', () => {
+    expect(extractReferences('Add login flow (#12)', 'Fixes #7, #9\nRefs acme/shop#4')).toEqual({
+      pr: { number: 12 },
+      issues: [7, 9, 4],
+    });
+    expect(extractReferences('Fixes #12').pr).toBeUndefined();
+    expect(extractReferences('Fixes #12').issues).toEqual([12]);
+  });
+});
+
+describe('parseRepoRemote', () => {
+  it.each([
+    ['https://github.com/acme/shop.git', { platform: 'github', host: 'github.com', owner: 'acme', repo: 'shop' }],
+    ['git@github.com:acme/shop.git', { platform: 'github', host: 'github.com', owner: 'acme', repo: 'shop' }],
+    ['ssh://git@ssh.github.com:443/acme/shop.git', { platform: 'github', host: 'ssh.github.com', owner: 'acme', repo: 'shop' }],
+    ['git@gitlab.com:acme/platform/shop.git', { platform: 'gitlab', host: 'gitlab.com', projectPath: 'acme/platform/shop' }],
+    ['https://bitbucket.org/acme/shop.git', { platform: 'bitbucket', host: 'bitbucket.org', owner: 'acme', repo: 'shop' }],
+    ['https://dev.azure.com/acme/Shop/_git/web', { platform: 'azure', host: 'dev.azure.com', owner: 'acme/Shop', repo: 'web' }],
+    ['git@ssh.dev.azure.com:v3/acme/Shop/web', { platform: 'azure', host: 'ssh.dev.azure.com', owner: 'acme/Shop', repo: 'web' }],
+    ['https://acme.visualstudio.com/Shop/_git/web', { platform: 'azure', host: 'acme.visualstudio.com', owner: 'acme/Shop', repo: 'web' }],
+    ['https://codeberg.org/acme/shop.git', { platform: 'gitea', host: 'codeberg.org', owner: 'acme', repo: 'shop' }],
+  ])('reads %s', (url, info) => {
+    expect(parseRepoRemote(url)).toEqual(info);
+  });
+
+  it('recognizes self-hosted servers named after their platform', () => {
+    expect(parseRepoRemote('git@github.corp.com:acme/shop.git')?.platform).toBe('github');
+    expect(parseRepoRemote('https://gitlab.example.org/acme/shop.git')?.platform).toBe('gitlab');
+    expect(parseRepoRemote('https://forgejo.example.org/acme/shop.git')?.platform).toBe('gitea');
+  });
+
+  it('does not take hosts that merely contain a platform name', () => {
+    expect(parseRepoRemote('https://notgithub.example.com/acme/shop.git')).toBeNull();
+    expect(parseRepoRemote('https://mygitlab.example.com/acme/shop.git')).toBeNull();
+    expect(parseRepoRemote('https://git.example.com/github/shop.git')).toBeNull();
+  });
+
+  it('uses host mappings for other servers', () => {
+    const hosts = parseGitHosts(['code.corp.com=github']);
+    expect(parseRepoRemote('git@code.corp.com:acme/shop.git', hosts)).toMatchObject({ platform: 'github', owner: 'acme', repo: 'shop' });
+    expect(() => parseGitHosts('code.corp.com=svn')).toThrow('Invalid git host mapping');
+  });
+});
+
+describe('PR APIs', () => {
+  let server: MockServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  // Routes by path; `next` adds a Link header to the next page
+  const start = async (routes: Record<string, (page: number) => { data: unknown; status?: number; next?: boolean }>) => {
+    const handler: MockHandler = (request, res) => {
+      const url = new URL(request.url, server!.url);
+      const route = routes[url.pathname];
+      if (!route) {
+        sendJson(res, { message: 'Not Found' }, 404);
+        return;
+      }
+      const page = Number(url.searchParams.get('page') || 1);
+      const { data, status, next } = route(page);
+      const nextUrl = `${server!.url}${url.pathname}?per_page=100&page=${page + 1}`;
+      sendJson(res, data, status, next ? { Link: `<${nextUrl}>; rel="next"` } : {});
+    };
+    server = await startMockServer(handler);
+    return server;
+  };
+
+  it('follows Link headers across pages, up to a limit', async () => {
+    const mock = await start({
+      '/items': page => ({ data: [{ page }], next: page < 5 }),
+      '/search': page => ({ data: { total_count: 2, items: [{ page }] }, next: page < 2 }),
+    });
+
+    expect(await fetchAllPages(`${mock.url}/items`, {})).toEqual([1, 2, 3, 4, 5].map(page => ({ page })));
+    expect(await fetchAllPages(`${mock.url}/items`, {}, 2)).toEqual([{ page: 1 }, { page: 2 }]);
+    expect(await fetchAllPages(`${mock.url}/search`, {})).toEqual([{ page: 1 }, { page: 2 }]);
+  });
+
+  it('ends a list early when a page fails', async () => {
+    const mock = await start({
+      '/items': page => page === 1 ? { data: [{ page }], next: true } : { data: { message: 'boom' }, status: 500 },
+    });
+
+    expect(await fetchAllPages(`${mock.url}/items`, {})).toEqual([{ page: 1 }]);
+  });
+
+  it('reads a GitHub PR with paginated reviews', async () => {
+    const mock = await start({
+      '/repos/acme/shop/pulls/12': () => ({
+        data: {
+          title: 'Add login flow with SSO',
+          body: 'Implements login.\n\nFixes #7 and closes #9',
+          html_url: 'https://github.com/acme/shop/pull/12',
+          user: { login: 'dev' },
+          labels: [{ name: 'auth' }, { name: 'customer-facing' }],
+          comments: 3,
+          review_comments: 5,
+          created_at: '2025-01-01T10:00:00Z',
+          merged_at: '2025-01-03T12:30:00Z',
+          author_association: 'CONTRIBUTOR',
+          head: { repo: { full_name: 'acme/shop' } },
+          base: { repo: { full_name: 'acme/shop' } },
+        },
+      }),
+      '/repos/acme/shop/pulls/12/reviews': page => page === 1
+        ? {
+          data: [
+            { user: { login: 'alice' }, state: 'CHANGES_REQUESTED', commit_id: 'a1' },
+            { user: { login: 'dev' }, state: 'COMMENTED', commit_id: 'a1' },
+            { user: { login: 'alice' }, state: 'COMMENTED', commit_id: 'a1' },
+          ],
+          next: true,
+        }
+        : {
+          data: [
+            { user: { login: 'bob' }, state: 'APPROVED', commit_id: 'b2' },
+            { user: { login: 'carol' }, state: 'PENDING', commit_id: 'c3' },
+          ],
+        },
+    });
+
+    const pr = await fetchPRFromGitHub('acme', 'shop', 12, 'gh-token', mock.url);
+
+    expect(pr).toEqual({
+      number: 12,
+      title: 'Add login flow with SSO',
+      description: 'Implements login.\n\nFixes #7 and closes #9',
+      url: 'https://github.com/acme/shop/pull/12',
+      author: 'dev',
+      // The author's own comments and pending reviews don't count
+      reviewers: ['alice', 'bob'],
+      reviewRounds: 2,
+      labels: ['auth', 'customer-facing'],
+      linkedIssues: [7, 9],
+      comments: 8,
+      createdAt: '2025-01-01T10:00:00Z',
+      mergedAt: '2025-01-03T12:30:00Z',
+      timeToMergeHours: 50.5,
+      crossTeam: true,
+    });
+    expect(mock.requests[0].headers.authorization).toBe('token gh-token');
+    expect(mock.requests.map(r => r.url)).toEqual([
+      '/repos/acme/shop/pulls/12',
+      '/repos/acme/shop/pulls/12/reviews?per_page=100',
+      '/repos/acme/shop/pulls/12/reviews?per_page=100&page=2',
+    ]);
+  });
+
+  it('returns null for a missing GitHub PR or without a token', async () => {
+    const mock = await start({});
+
+    expect(await fetchPRFromGitHub('acme', 'shop', 404, 'gh-token', mock.url)).toBeNull();
+    expect(await fetchPRFromGitHub('acme', 'shop', 12, undefined, mock.url)).toBeNull();
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  it('reads a GitLab MR with approvals, versions and closed issues', async () => {
+    const mr = '/api/v4/projects/acme%2Fplatform%2Fshop/merge_requests/12';
+    const mock = await start({
+      [mr]: () => ({
+        data: {
+          title: 'Add login flow with SSO',
+          description: 'Also closes #9',
+          web_url: 'https://gitlab.example.com/acme/platform/shop/-/merge_requests/12',
+          author: { username: 'dev' },
+          reviewers: [{ username: 'alice' }, { username: 'dev' }],
+          labels: ['auth'],
+          user_notes_count: 4,
+          created_at: '2025-01-01T10:00:00Z',
+          merged_at: '2025-01-01T22:00:00Z',
+          source_project_id: 1,
+          target_project_id: 1,
+        },
+      }),
+      [`${mr}/approvals`]: () => ({ data: { approved_by: [{ user: { username: 'bob' } }] } }),
+      [`${mr}/versions`]: page => page === 1
+        ? { data: [{ id: 3 }, { id: 2 }], next: true }
+        : { data: [{ id: 1 }] },
+      [`${mr}/closes_issues`]: () => ({ data: [{ iid: 7 }] }),
+    });
+
+    const pr = await fetchPRFromGitLab('acme/platform/shop', 12, 'gl-token', mock.url);
+
+    expect(pr).toEqual({
+      number: 12,
+      title: 'Add login flow with SSO',
+      description: 'Also closes #9',
+      url: 'https://gitlab.example.com/acme/platform/shop/-/merge_requests/12',
+      author: 'dev',
+      reviewers: ['alice', 'bob'],
+      reviewRounds: 3,
+      labels: ['auth'],
+      linkedIssues: [7, 9],
+      comments: 4,
+      createdAt: '2025-01-01T10:00:00Z',
+      mergedAt: '2025-01-01T22:00:00Z',
+      timeToMergeHours: 12,
+      crossTeam: false,
+    });
+    expect(mock.requests[0].headers['private-token']).toBe('gl-token');
+  });
+
+  it('reads a GitLab MR when approvals are unavailable', async () => {
+    const mr = '/api/v4/projects/acme%2Fshop/merge_requests/5';
+    const mock = await start({
+      [mr]: () => ({ data: { title: 'Fix export', author: { username: 'dev' }, created_at: '2025-01-01T10:00:00Z' } }),
+      [`${mr}/approvals`]: () => ({ data: { message: 'Forbidden' }, status: 403 }),
+    });
+
+    const pr = await fetchPRFromGitLab('acme/shop', 5, 'gl-token', mock.url);
+
+    expect(pr).toMatchObject({ number: 5, title: 'Fix export', reviewers: [], reviewRounds: 0, linkedIssues: [] });
+    expect(pr?.mergedAt).toBeUndefined();
+    expect(pr?.timeToMergeHours).toBeUndefined();
+  });
+});
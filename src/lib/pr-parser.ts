@@ -1,39 +1,120 @@
+import { isNetworkGuardError } from './network-guard.js';
+import { getCommitDescription } from './commit-message.js';
+import { findPRMetadata, PRMetadata } from './pr-metadata.js';
+
 export interface PRInfo {
   number: number;
   title?: string;
   description?: string;
   url?: string;
+  author?: string;
+  // Everyone other than the author who reviewed or approved
+  reviewers?: string[];
+  // Reviewed revisions (GitHub) or pushed versions (GitLab)
+  reviewRounds?: number;
+  labels?: string[];
+  // Issues the PR closes or mentions with a closing keyword
+  linkedIssues?: number[];
+  // Conversation and diff comments
+  comments?: number;
+  createdAt?: string;
+  mergedAt?: string;
+  timeToMergeHours?: number;
+  // Opened from a fork or by someone outside the repository's members
+  crossTeam?: boolean;
+}
+
+export const GITHUB_API_URL = 'https://api.github.com';
+
+export type RepoPlatform = 'github' | 'gitlab' | 'bitbucket' | 'azure' | 'gitea';
+
+export const REPO_PLATFORMS: RepoPlatform[] = ['github', 'gitlab', 'bitbucket', 'azure', 'gitea'];
+
+export interface PRReference {
+  number: number;
+  // Platform whose merge/squash format matched; undefined for generic "PR #12"
+  platform?: RepoPlatform;
+  // Project named by the reference (GitLab "See merge request group/proj!12")
+  project?: string;
+}
+
+export interface CommitReferences {
+  pr?: PRReference;
+  // Issues the commit fixes or references ("Fixes #12", "Refs owner/repo#4")
+  issues: number[];
 }
 
-// Patterns to detect PR references in commit messages
-const PR_PATTERNS = [
-  /(?:fixes?|closes?|resolves?|merges?)\s+(?:#|PR\s*#?)(\d+)/i,
-  /(?:#|PR\s*#?)(\d+)/i,
-  /PR[:\s]+(\d+)/i,
-  /pull[-\s]?request[:\s]+#?(\d+)/i,
+// Pull/merge request formats, most specific first. Subject-only patterns are
+// anchored so "#1 priority" or a color like #123456 is not taken for a PR.
+const PR_PATTERNS: { pattern: RegExp; platform?: RepoPlatform; subjectOnly?: boolean }[] = [
+  // GitHub merge commit: "Merge pull request #12 from owner/branch"
+  { pattern: /^Merge pull request #(\d+)\b/i, platform: 'github', subjectOnly: true },
+  // GitLab merge commit body: "See merge request group/project!12"
+  { pattern: /See merge request ([\w.\-/]+)!(\d+)/i, platform: 'gitlab' },
+  // Bitbucket: "Merged in feature/x (pull request #12)"
+  { pattern: /^Merged in \S+ \(pull request #(\d+)\)/i, platform: 'bitbucket', subjectOnly: true },
+  // Azure DevOps: "Merged PR 12: Title"
+  { pattern: /^Merged PR (\d+):/i, platform: 'azure', subjectOnly: true },
+  // GitHub/Gitea squash merge: "Title (#12)"
+  { pattern: /\(#(\d+)\)\s*$/, subjectOnly: true },
+  // GitLab squash or reference: "Title (!12)"
+  { pattern: /\(!(\d+)\)\s*$/, platform: 'gitlab', subjectOnly: true },
+  // Explicit mentions: "PR #12", "PR-12", "pull request #12", "merge request !12".
+  // The delimiter is required, so "PR 2024 roadmap" is not PR #2024.
+  { pattern: /\bPR:?\s*(?:#|-)(\d+)\b/i },
+  { pattern: /\bpull[-\s]?request:?\s*#(\d+)\b/i },
+  { pattern: /\bmerge[-\s]?request:?\s*!(\d+)\b/i, platform: 'gitlab' },
 ];
 
+// Every form of PR reference, so "PR-12" is not also read as a ticket
+export const PR_REFERENCE_PATTERNS = PR_PATTERNS.map(({ pattern }) => pattern);
+
+// Issue references: closing keywords or "refs", with an optional owner/repo prefix
+const ISSUE_PATTERN = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?|refs?|references|see|related to|issue)\s*:?\s+((?:[\w.-]+\/[\w.-]+)?#\d+(?:\s*,\s*(?:[\w.-]+\/[\w.-]+)?#\d+)*)/gi;
+
 /**
- * Extract PR number from commit message
+ * Find the pull/merge request and the issues a commit references
  */
-export function extractPRNumber(commitMessage: string, commitBody?: string): number | null {
-  const combined = `${commitMessage} ${commitBody || ''}`;
-  
-  for (const pattern of PR_PATTERNS) {
-    const match = combined.match(pattern);
-    if (match && match[1]) {
-      return parseInt(match[1], 10);
+export function extractReferences(commitMessage: string, commitBody?: string): CommitReferences {
+  const subject = commitMessage.trim();
+  const combined = `${subject}\n${commitBody || ''}`;
+
+  let pr: PRReference | undefined;
+  for (const { pattern, platform, subjectOnly } of PR_PATTERNS) {
+    const match = (subjectOnly ? subject : combined).match(pattern);
+    if (match) {
+      const project = match.length > 2 ? match[1] : undefined;
+      pr = { number: parseInt(match[match.length - 1], 10), platform, ...(project ? { project } : {}) };
+      break;
     }
   }
-  
-  return null;
+
+  const issues = new Set<number>();
+  for (const match of combined.matchAll(ISSUE_PATTERN)) {
+    for (const ref of match[1].matchAll(/#(\d+)/g)) {
+      const number = parseInt(ref[1], 10);
+      if (number !== pr?.number) {
+        issues.add(number);
+      }
+    }
+  }
+
+  return { pr, issues: Array.from(issues) };
+}
+
+/**
+ * Extract PR number from commit message
+ */
+export function extractPRNumber(commitMessage: string, commitBody?: string): number | null {
+  return extractReferences(commitMessage, commitBody).pr?.number ?? null;
 }
 
 /**
  * Check if commit message is "not helpful" (too generic or short)
  */
 export function isCommitMessageHelpful(message: string): boolean {
-  const trimmed = message.trim();
+  // "chore: update" is as generic as "update"
+  const trimmed = getCommitDescription(message);
   
   // Too short
   if (trimmed.length < 10) {
@@ -61,47 +142,131 @@ export function isCommitMessageHelpful(message: string): boolean {
   return true;
 }
 
+// Upper bound on pages fetched for one list (reviews, versions, closed issues)
+const MAX_PAGES = 10;
+
+// GitHub author associations of people outside the repository's team
+const OUTSIDE_ASSOCIATIONS = ['CONTRIBUTOR', 'FIRST_TIME_CONTRIBUTOR', 'FIRST_TIMER', 'NONE'];
+
 /**
- * Fetch PR details from GitHub API
+ * GET a JSON resource, or null for an error response. Also returns the
+ * Link header's next page, which GitHub and GitLab both send for lists.
+ */
+export async function fetchJson(url: string, headers: Record<string, string>): Promise<{ data: any; next?: string } | null> {
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    return null;
+  }
+  const next = response.headers.get('link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1];
+  return { data: await response.json(), next };
+}
+
+/**
+ * Collect every page of a list. Review details are optional, so a failing
+ * page ends the list early instead of failing the whole PR. `maxPages`
+ * bounds the pages fetched.
+ */
+export async function fetchAllPages(
+  url: string,
+  headers: Record<string, string>,
+  maxPages: number = MAX_PAGES
+): Promise<any[]> {
+  const items: any[] = [];
+  let next: string | undefined = url;
+  try {
+    for (let page = 0; next && page < maxPages; page++) {
+      const result: { data: any; next?: string } | null = await fetchJson(next, headers);
+      // Search endpoints wrap the list in { items }
+      const list = Array.isArray(result?.data) ? result?.data : result?.data?.items;
+      if (!result || !Array.isArray(list)) {
+        break;
+      }
+      items.push(...list);
+      next = result.next;
+    }
+  } catch (error) {
+    if (isNetworkGuardError(error)) {
+      throw error;
+    }
+  }
+  return items;
+}
+
+function uniqueNames(names: (string | undefined)[]): string[] {
+  return Array.from(new Set(names.filter((name): name is string => !!name)));
+}
+
+/**
+ * Hours from opening to merge, to one decimal
+ */
+function getTimeToMerge(createdAt?: string, mergedAt?: string): number | undefined {
+  if (!createdAt || !mergedAt) {
+    return undefined;
+  }
+  const hours = (new Date(mergedAt).getTime() - new Date(createdAt).getTime()) / 3600000;
+  return isNaN(hours) ? undefined : Math.round(hours * 10) / 10;
+}
+
+/**
+ * Fetch PR details from GitHub API, including reviews, labels and linked issues
  */
 export async function fetchPRFromGitHub(
   owner: string,
   repo: string,
   prNumber: number,
-  apiKey?: string
+  apiKey?: string,
+  apiUrl: string = GITHUB_API_URL
 ): Promise<PRInfo | null> {
   if (!apiKey) {
     return null;
   }
 
   try {
-    const url = `https://api.github.com/repos/${owner}/${repo}/pulls/${prNumber}`;
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': `token ${apiKey}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'User-Agent': 'career-log-cli',
-      },
-    });
-
-    if (!response.ok) {
+    const headers = {
+      'Authorization': `token ${apiKey}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'User-Agent': 'career-log-cli',
+    };
+    const url = `${apiUrl.replace(/\/+$/, '')}/repos/${owner}/${repo}/pulls/${prNumber}`;
+    const result = await fetchJson(url, headers);
+    if (!result) {
       return null;
     }
 
-    const data = await response.json() as any;
+    const data = result.data;
+    const author: string | undefined = data.user?.login;
+    const reviews = (await fetchAllPages(`${url}/reviews?per_page=100`, headers))
+      .filter(review => review.state !== 'PENDING' && review.user?.login && review.user.login !== author);
+    const fromFork = !!data.head?.repo && data.head.repo.full_name !== data.base?.repo?.full_name;
+
     return {
       number: prNumber,
       title: data.title,
       description: data.body || undefined,
       url: data.html_url,
+      author,
+      reviewers: uniqueNames(reviews.map(review => review.user.login)),
+      // Each reviewed commit is a round of feedback
+      reviewRounds: new Set(reviews.map(review => review.commit_id)).size,
+      labels: uniqueNames((data.labels || []).map((label: any) => label.name)),
+      linkedIssues: extractReferences(data.title || '', data.body || '').issues,
+      comments: (data.comments || 0) + (data.review_comments || 0),
+      createdAt: data.created_at,
+      mergedAt: data.merged_at || undefined,
+      timeToMergeHours: getTimeToMerge(data.created_at, data.merged_at),
+      crossTeam: fromFork || OUTSIDE_ASSOCIATIONS.includes(data.author_association),
     };
   } catch (error) {
+    // A blocked request in enterprise mode must not look like a missing PR
+    if (isNetworkGuardError(error)) {
+      throw error;
+    }
     return null;
   }
 }
 
 /**
- * Fetch PR details from GitLab API
+ * Fetch MR details from GitLab API, including reviewers, approvals and closed issues
  */
 export async function fetchPRFromGitLab(
   projectPath: string,
@@ -114,79 +279,222 @@ export async function fetchPRFromGitLab(
   }
 
   try {
-    const url = `${gitlabUrl}/api/v4/projects/${encodeURIComponent(projectPath)}/merge_requests/${prNumber}`;
-    const response = await fetch(url, {
-      headers: {
-        'PRIVATE-TOKEN': apiKey,
-      },
-    });
-
-    if (!response.ok) {
+    const headers = { 'PRIVATE-TOKEN': apiKey };
+    const url = `${gitlabUrl.replace(/\/+$/, '')}/api/v4/projects/${encodeURIComponent(projectPath)}/merge_requests/${prNumber}`;
+    const result = await fetchJson(url, headers);
+    if (!result) {
       return null;
     }
 
-    const data = await response.json() as any;
+    const data = result.data;
+    const author: string | undefined = data.author?.username;
+    // Approvals are unavailable on some tiers; the MR is still useful without them
+    const approvals = await fetchJson(`${url}/approvals`, headers).catch(error => {
+      if (isNetworkGuardError(error)) {
+        throw error;
+      }
+      return null;
+    });
+    const approvers = (approvals?.data?.approved_by || []).map((approval: any) => approval.user?.username);
+    const versions = await fetchAllPages(`${url}/versions?per_page=100`, headers);
+    const closedIssues = await fetchAllPages(`${url}/closes_issues?per_page=100`, headers);
+    const mentionedIssues = extractReferences(data.title || '', data.description || '').issues;
+
     return {
       number: prNumber,
       title: data.title,
       description: data.description || undefined,
       url: data.web_url,
+      author,
+      reviewers: uniqueNames([
+        ...(data.reviewers || []).map((user: any) => user.username),
+        ...approvers,
+      ]).filter(name => name !== author),
+      // Each pushed version is a round of review
+      reviewRounds: versions.length,
+      labels: uniqueNames((data.labels || []).map((label: any) => typeof label === 'string' ? label : label.name)),
+      linkedIssues: Array.from(new Set([...closedIssues.map((issue: any) => Number(issue.iid)), ...mentionedIssues])),
+      comments: data.user_notes_count || 0,
+      createdAt: data.created_at,
+      mergedAt: data.merged_at || undefined,
+      timeToMergeHours: getTimeToMerge(data.created_at, data.merged_at),
+      crossTeam: data.source_project_id !== undefined && data.source_project_id !== data.target_project_id,
     };
   } catch (error) {
+    // A blocked request in enterprise mode must not look like a missing PR
+    if (isNetworkGuardError(error)) {
+      throw error;
+    }
     return null;
   }
 }
 
-/**
- * Detect repository platform and extract owner/repo
- */
-export async function detectRepoInfo(repoPath: string): Promise<{
-  platform: 'github' | 'gitlab' | 'unknown';
+export interface RepoInfo {
+  platform: RepoPlatform | 'unknown';
+  host?: string;
+  // Remote the information came from
+  remote?: string;
   owner?: string;
   repo?: string;
+  // Full project path (GitLab groups and subgroups)
   projectPath?: string;
-}> {
-  // Try to get remote URL
+}
+
+// Public hosts, also matched with subdomains (ssh.github.com); self-hosted
+// ones are recognized by name or mapped with --git-host
+const KNOWN_HOSTS: Record<string, RepoPlatform> = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket',
+  'dev.azure.com': 'azure',
+  'ssh.dev.azure.com': 'azure',
+  'codeberg.org': 'gitea',
+  'gitea.com': 'gitea',
+};
+
+// Remotes checked first, in this order; other remotes follow alphabetically
+const PREFERRED_REMOTES = ['origin', 'upstream'];
+
+/**
+ * Parse host-to-platform mappings from the CLI ("git.corp.com=gitlab") or a
+ * config file ({ "git.corp.com": "gitlab" })
+ */
+export function parseGitHosts(value: unknown): Record<string, RepoPlatform> {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  const entries: [string, string][] = Array.isArray(value) || typeof value === 'string'
+    ? [value].flat().map((item: string) => {
+      const [host, platform] = item.split('=');
+      return [host, platform] as [string, string];
+    })
+    : Object.entries(value as Record<string, string>);
+
+  const hosts: Record<string, RepoPlatform> = {};
+  for (const [host, platform] of entries) {
+    if (!host?.trim() || !REPO_PLATFORMS.includes(platform?.trim() as RepoPlatform)) {
+      throw new Error(`Invalid git host mapping "${host}=${platform ?? ''}" (expected <host>=<platform> with one of: ${REPO_PLATFORMS.join(', ')})`);
+    }
+    hosts[host.trim().toLowerCase()] = platform.trim() as RepoPlatform;
+  }
+  return hosts;
+}
+
+/**
+ * Split a remote URL (https, ssh:// or scp-like git@host:path) into host and path
+ */
+export function parseRemoteUrl(url: string): { host: string; path: string } | null {
+  const trimmed = url.trim();
+  let host: string;
+  let path: string;
+
+  const scpLike = trimmed.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+  if (scpLike) {
+    [, host, path] = scpLike;
+  } else {
+    try {
+      const parsed = new URL(trimmed);
+      host = parsed.hostname;
+      path = decodeURIComponent(parsed.pathname);
+    } catch {
+      return null;
+    }
+  }
+
+  path = path.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '');
+  return host && path ? { host: host.toLowerCase(), path } : null;
+}
+
+/**
+ * Platform for a host: explicit mapping, a public host or its subdomain, or a
+ * server named after its platform like github.corp.com (the first label must
+ * be the platform name, so notgithub.example.com is not GitHub)
+ */
+function getHostPlatform(host: string, hosts: Record<string, RepoPlatform>): RepoPlatform | undefined {
+  if (hosts[host]) {
+    return hosts[host];
+  }
+  const known = Object.keys(KNOWN_HOSTS).find(domain => host === domain || host.endsWith(`.${domain}`));
+  if (known) {
+    return KNOWN_HOSTS[known];
+  }
+  if (host.endsWith('.visualstudio.com')) {
+    return 'azure';
+  }
+  const label = host.split('.')[0];
+  if (label === 'forgejo') {
+    return 'gitea';
+  }
+  return (['github', 'gitlab', 'bitbucket', 'gitea'] as const).find(platform => label === platform);
+}
+
+/**
+ * Describe one remote URL, or null when its platform is unknown
+ */
+export function parseRepoRemote(url: string, hosts: Record<string, RepoPlatform> = {}): RepoInfo | null {
+  const remote = parseRemoteUrl(url);
+  const platform = remote && getHostPlatform(remote.host, hosts);
+  if (!remote || !platform) {
+    return null;
+  }
+
+  const segments = remote.path.split('/');
+  if (platform === 'gitlab') {
+    return { platform, host: remote.host, projectPath: remote.path };
+  }
+  if (platform === 'azure') {
+    // https: org/project/_git/repo (or project/_git/repo on org.visualstudio.com); ssh: v3/org/project/repo
+    const parts = segments.filter(segment => segment !== '_git' && segment !== 'v3');
+    const org = remote.host.endsWith('.visualstudio.com') ? remote.host.split('.')[0] : parts.shift();
+    if (!org || parts.length < 2) {
+      return null;
+    }
+    return { platform, host: remote.host, owner: `${org}/${parts[0]}`, repo: parts[parts.length - 1] };
+  }
+  if (segments.length < 2) {
+    return null;
+  }
+  return { platform, host: remote.host, owner: segments[0], repo: segments[1] };
+}
+
+/**
+ * Detect repository platform and extract owner/repo. Remotes are tried in
+ * order: the requested one only, else origin, upstream, then the rest.
+ */
+export async function detectRepoInfo(
+  repoPath: string,
+  options: { hosts?: Record<string, RepoPlatform>; remote?: string } = {}
+): Promise<RepoInfo> {
   try {
     const { execSync } = await import('child_process');
-    const remoteUrl = execSync('git config --get remote.origin.url', {
+    const output = execSync('git config --get-regexp "^remote\\..*\\.url$"', {
       cwd: repoPath,
       encoding: 'utf-8',
-    }).trim();
-
-    // GitHub patterns
-    const githubMatch = remoteUrl.match(/github\.com[/:]([^/]+)\/([^/]+?)(?:\.git)?$/i);
-    if (githubMatch) {
-      return {
-        platform: 'github',
-        owner: githubMatch[1],
-        repo: githubMatch[2].replace(/\.git$/, ''),
-      };
-    }
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
 
-    // GitLab patterns
-    const gitlabMatch = remoteUrl.match(/gitlab\.com[/:](.+?)(?:\.git)?$/i);
-    if (gitlabMatch) {
-      return {
-        platform: 'gitlab',
-        projectPath: gitlabMatch[1].replace(/\.git$/, ''),
-      };
-    }
+    const remotes = output
+      .split('\n')
+      .map(line => line.match(/^remote\.(.+)\.url\s+(.+)$/))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .map(([, name, url]) => ({ name, url }));
+
+    const priority = (name: string) => {
+      const index = PREFERRED_REMOTES.indexOf(name);
+      return index === -1 ? PREFERRED_REMOTES.length : index;
+    };
+    const candidates = options.remote
+      ? remotes.filter(r => r.name === options.remote)
+      : remotes.sort((a, b) => priority(a.name) - priority(b.name) || a.name.localeCompare(b.name));
 
-    // Custom GitLab instances
-    const customGitlabMatch = remoteUrl.match(/([^/]+)\/([^/]+?)(?:\.git)?$/i);
-    if (customGitlabMatch && !remoteUrl.includes('github.com')) {
-      // Try to extract from common GitLab patterns
-      const pathMatch = remoteUrl.match(/(?:git@|https?:\/\/)([^:]+)[/:](.+?)(?:\.git)?$/i);
-      if (pathMatch) {
-        return {
-          platform: 'gitlab',
-          projectPath: pathMatch[2],
-        };
+    for (const { name, url } of candidates) {
+      const info = parseRepoRemote(url, options.hosts);
+      if (info) {
+        return { ...info, remote: name };
       }
     }
   } catch (error) {
-    // Could not detect
+    // No remotes, or not a git repository
   }
 
   return { platform: 'unknown' };
@@ -204,39 +512,75 @@ export async function getPRInfo(
     githubToken?: string;
     gitlabToken?: string;
     gitlabUrl?: string;
+    // GitHub API base URL; detected for GitHub Enterprise Server when unset
+    githubApiUrl?: string;
+    // Host-to-platform mappings for self-hosted servers
+    gitHosts?: Record<string, RepoPlatform>;
+    remote?: string;
+    // Exported PR details, consulted before (and instead of) any API
+    prMetadata?: PRMetadata;
   }
 ): Promise<PRInfo | null> {
-  if (options.skipPR) {
+  if (options.skipPR && !options.prMetadata) {
     return null;
   }
 
-  const prNumber = extractPRNumber(commitMessage, commitBody);
+  const { pr } = extractReferences(commitMessage, commitBody);
   
-  if (!prNumber) {
+  if (!pr) {
     return null;
   }
 
+  // A --gitlab-url host is a GitLab server even without a mapping
+  const hosts: Record<string, RepoPlatform> = { ...options.gitHosts };
+  const gitlabHost = options.gitlabUrl ? parseRemoteUrl(options.gitlabUrl)?.host : undefined;
+  if (gitlabHost && !hosts[gitlabHost]) {
+    hosts[gitlabHost] = 'gitlab';
+  }
+
   // Try to fetch from API if tokens are provided
-  const repoInfo = await detectRepoInfo(repoPath);
+  const repoInfo = await detectRepoInfo(repoPath, { hosts, remote: options.remote });
+
+  // The metadata file works offline, so it also serves --skip-pr and enterprise mode
+  if (options.prMetadata) {
+    const projectPath = repoInfo.projectPath || (repoInfo.owner && repoInfo.repo ? `${repoInfo.owner}/${repoInfo.repo}` : undefined);
+    const prInfo = findPRMetadata(options.prMetadata, pr.number, projectPath);
+    if (prInfo) {
+      return prInfo;
+    }
+  }
+  if (options.skipPR) {
+    return null;
+  }
+
+  // A format from another platform (e.g. history imported from Azure DevOps)
+  // numbers a PR that doesn't exist on this remote
+  const samePlatform = !pr.platform || pr.platform === repoInfo.platform;
   
-  if (repoInfo.platform === 'github' && repoInfo.owner && repoInfo.repo && options.githubToken) {
+  if (samePlatform && repoInfo.platform === 'github' && repoInfo.owner && repoInfo.repo && options.githubToken) {
+    // GitHub Enterprise Server serves its API under /api/v3
+    const apiUrl = options.githubApiUrl ||
+      (repoInfo.host && repoInfo.host !== 'github.com' ? `https://${repoInfo.host}/api/v3` : undefined);
     const prInfo = await fetchPRFromGitHub(
       repoInfo.owner,
       repoInfo.repo,
-      prNumber,
-      options.githubToken
+      pr.number,
+      options.githubToken,
+      apiUrl
     );
     if (prInfo) {
       return prInfo;
     }
   }
   
-  if (repoInfo.platform === 'gitlab' && repoInfo.projectPath && options.gitlabToken) {
+  if (samePlatform && repoInfo.platform === 'gitlab' && repoInfo.projectPath && options.gitlabToken) {
+    const gitlabUrl = options.gitlabUrl ||
+      (repoInfo.host && repoInfo.host !== 'gitlab.com' ? `https://${repoInfo.host}` : undefined);
     const prInfo = await fetchPRFromGitLab(
-      repoInfo.projectPath,
-      prNumber,
+      pr.project || repoInfo.projectPath,
+      pr.number,
       options.gitlabToken,
-      options.gitlabUrl
+      gitlabUrl
     );
     if (prInfo) {
       return prInfo;
@@ -245,6 +589,6 @@ export async function getPRInfo(
 
   // Return basic PR info even without API access
   return {
-    number: prNumber,
+    number: pr.number,
   };
 }
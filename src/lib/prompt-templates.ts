@@ -0,0 +1,324 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { createHash } from 'crypto';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { Commit } from './git-parser.js';
+import { DiffAnalysis } from './diff-analyzer.js';
+
+export type PromptPreset = 'default' | 'resume' | 'manager-update' | 'promo-packet';
+
+export const PROMPT_PRESETS: PromptPreset[] = ['default', 'resume', 'manager-update', 'promo-packet'];
+
+export interface PromptShape {
+  maxLength: number;
+  minLength: number;
+  maxSentences: number;
+  // Must open with a past-tense action verb ("Reduced", "Built")
+  actionVerb: boolean;
+}
+
+export interface PromptTemplate extends PromptShape {
+  name: string;
+  system: string;
+  prompt: string;
+  source?: string;
+  fingerprint: string;
+}
+
+export interface PromptValues {
+  message: string;
+  body: string;
+  files: string;
+  insertions: number;
+  deletions: number;
+  impact: string;
+  signals: string;
+  fileTypes: string;
+  component: string;
+  prTitle: string;
+  prDescription: string;
+  diff: string;
+}
+
+// Placeholders available in templates; {context} is the standard commit summary
+const PLACEHOLDERS = [
+  'message', 'body', 'files', 'insertions', 'deletions', 'impact', 'signals',
+  'fileTypes', 'component', 'prTitle', 'prDescription', 'diff', 'maxLength', 'context',
+];
+
+const SYSTEM_PROMPT = 'You are a professional career log generator. Generate concise, impactful achievement statements from git commits.';
+
+const CONTEXT_INSTRUCTIONS = `Analyze this git commit and write an achievement statement (max {maxLength} characters).
+
+{context}`;
+
+const RESPONSE_INSTRUCTIONS = 'Return only the achievement statement, no additional text.';
+
+const PRESETS: Record<PromptPreset, Omit<PromptTemplate, 'fingerprint'>> = {
+  default: {
+    name: 'default',
+    system: SYSTEM_PROMPT,
+    prompt: `${CONTEXT_INSTRUCTIONS}
+
+Generate a concise, professional achievement statement that:
+- Highlights the key accomplishment
+- Mentions the component/area affected
+- Is suitable for a resume or career log
+- Is maximum {maxLength} characters
+- Avoids redundancy (e.g., don't say "Optimized X by optimizing" - say "Optimized X performance" instead)
+- Uses specific actions when possible (e.g., "implementing caching" instead of just "optimizing")
+
+${RESPONSE_INSTRUCTIONS}`,
+    maxLength: 150,
+    minLength: 10,
+    maxSentences: 2,
+    actionVerb: false,
+  },
+  resume: {
+    name: 'resume',
+    system: `${SYSTEM_PROMPT} Write in the style of a resume bullet.`,
+    prompt: `${CONTEXT_INSTRUCTIONS}
+
+Write one resume bullet that:
+- Starts with a strong past-tense action verb (e.g., "Reduced", "Built", "Migrated")
+- Includes a concrete metric when the commit supports one (latency, files, users, lines)
+- Names the component/area affected
+- Is a single sentence of at most {maxLength} characters, with no trailing period
+
+${RESPONSE_INSTRUCTIONS}`,
+    maxLength: 150,
+    minLength: 20,
+    maxSentences: 1,
+    actionVerb: true,
+  },
+  'manager-update': {
+    name: 'manager-update',
+    system: `${SYSTEM_PROMPT} Write for an engineering manager reading a weekly update.`,
+    prompt: `${CONTEXT_INSTRUCTIONS}
+
+Write a short status-update line that:
+- Says what changed in plain language, without internal jargon
+- Says why it matters to the team, users or the project
+- Is at most two sentences and {maxLength} characters
+
+${RESPONSE_INSTRUCTIONS}`,
+    maxLength: 220,
+    minLength: 20,
+    maxSentences: 2,
+    actionVerb: false,
+  },
+  'promo-packet': {
+    name: 'promo-packet',
+    system: `${SYSTEM_PROMPT} Write for a promotion packet reviewed by a committee outside the team.`,
+    prompt: `${CONTEXT_INSTRUCTIONS}
+
+Write a promotion-packet entry of two or three sentences that covers:
+- The context or problem being solved
+- What was done, naming the component/area and the approach
+- The impact or scope (who benefits, scale, risk reduced)
+Keep it under {maxLength} characters and write in the first person past tense ("I led", "I built").
+
+${RESPONSE_INSTRUCTIONS}`,
+    maxLength: 450,
+    minLength: 80,
+    maxSentences: 3,
+    actionVerb: false,
+  },
+};
+
+const PromptTemplateFileSchema = z.object({
+  extends: z.enum(['default', 'resume', 'manager-update', 'promo-packet']).optional(),
+  system: z.string().optional(),
+  prompt: z.string().optional(),
+  maxLength: z.number().int().positive().optional(),
+  minLength: z.number().int().min(0).optional(),
+  maxSentences: z.number().int().positive().optional(),
+  actionVerb: z.boolean().optional(),
+}).strict();
+
+// Irregular past-tense verbs common in achievement statements
+const IRREGULAR_ACTION_VERBS = new Set([
+  'built', 'led', 'made', 'wrote', 'ran', 'drove', 'cut', 'set', 'grew', 'won',
+  'took', 'brought', 'kept', 'rebuilt', 'rewrote', 'overhauled', 'spearheaded', 'shipped',
+]);
+
+function withFingerprint(template: Omit<PromptTemplate, 'fingerprint'>): PromptTemplate {
+  const { source, ...content } = template;
+  return {
+    ...template,
+    fingerprint: createHash('sha256').update(JSON.stringify(content)).digest('hex').substring(0, 16),
+  };
+}
+
+/**
+ * Reject placeholders that would never be filled in
+ */
+function assertKnownPlaceholders(text: string, filePath: string): void {
+  for (const match of text.matchAll(/\{(\w+)\}/g)) {
+    if (!PLACEHOLDERS.includes(match[1])) {
+      throw new Error(`Invalid prompt template ${filePath}: unknown placeholder {${match[1]}} (available: ${PLACEHOLDERS.map(p => `{${p}}`).join(', ')})`);
+    }
+  }
+}
+
+/**
+ * Read a prompt template file. Plain text files replace the prompt of the
+ * default preset; JSON/YAML files can also set the system prompt and shape.
+ */
+export function readPromptTemplate(filePath: string): PromptTemplate {
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf-8');
+  } catch (error: any) {
+    throw new Error(`Could not read prompt template ${filePath}: ${error.message}`);
+  }
+
+  const ext = extname(filePath).toLowerCase();
+  if (ext !== '.json' && ext !== '.yaml' && ext !== '.yml') {
+    assertKnownPlaceholders(content, filePath);
+    return withFingerprint({ ...PRESETS.default, name: 'custom', prompt: content.trim(), source: filePath });
+  }
+
+  let data: unknown;
+  try {
+    data = ext === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error: any) {
+    throw new Error(`Could not read prompt template ${filePath}: ${error.message}`);
+  }
+
+  const result = PromptTemplateFileSchema.safeParse(data ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid prompt template ${filePath}: ${issues}`);
+  }
+
+  const { extends: base, ...overrides } = result.data;
+  assertKnownPlaceholders(`${overrides.system || ''}\n${overrides.prompt || ''}`, filePath);
+  return withFingerprint({ ...PRESETS[base || 'default'], ...overrides, name: 'custom', source: filePath });
+}
+
+/**
+ * Resolve the prompt template: a template file wins over a preset
+ */
+export function loadPromptTemplate(options: { preset?: string; templateFile?: string } = {}): PromptTemplate {
+  if (options.templateFile) {
+    return readPromptTemplate(options.templateFile);
+  }
+  const preset = (options.preset || 'default') as PromptPreset;
+  if (!PROMPT_PRESETS.includes(preset)) {
+    throw new Error(`Unknown prompt preset "${options.preset}" (expected one of: ${PROMPT_PRESETS.join(', ')})`);
+  }
+  return withFingerprint(PRESETS[preset]);
+}
+
+/**
+ * Collect the placeholder values for a commit
+ */
+export function buildPromptValues(
+  commit: Commit,
+  diffContent: string,
+  diffAnalysis: DiffAnalysis,
+  component: string
+): PromptValues {
+  return {
+    message: commit.message,
+    body: commit.body || '',
+    files: commit.files?.join(', ') || 'None',
+    insertions: commit.insertions || 0,
+    deletions: commit.deletions || 0,
+    impact: diffAnalysis.impactLevel,
+    signals: diffAnalysis.signals.join(', '),
+    fileTypes: diffAnalysis.fileTypes.join(', '),
+    component,
+    prTitle: commit.prTitle || '',
+    prDescription: commit.prDescription || '',
+    diff: `${diffContent.substring(0, 2000)}...`,
+  };
+}
+
+/**
+ * Standard commit summary, leaving out empty fields
+ */
+function formatContext(values: PromptValues): string {
+  const details = [
+    `Commit Message: ${values.message}`,
+    values.body ? `Commit Body: ${values.body}` : '',
+    values.prTitle ? `Pull Request: ${values.prTitle}` : '',
+    values.prDescription ? `Pull Request Description: ${values.prDescription}` : '',
+    `Component: ${values.component}`,
+    `Files Changed: ${values.files}`,
+    `Lines Changed: +${values.insertions} / -${values.deletions}`,
+    `Impact Level: ${values.impact}`,
+    `Signals: ${values.signals}`,
+    `File Types: ${values.fileTypes}`,
+  ].filter(Boolean).join('\n');
+
+  return `${details}\n\nDiff Summary:\n${values.diff}`;
+}
+
+/**
+ * Fill in a template's placeholders (single pass, so values are never re-expanded)
+ */
+export function renderPrompt(template: PromptTemplate, values: PromptValues): { system: string; prompt: string } {
+  const all: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(values).map(([key, value]) => [key, String(value)])),
+    maxLength: String(template.maxLength),
+    context: formatContext(values),
+  };
+  const fill = (text: string) => text.replace(/\{(\w+)\}/g, (match, key) => all[key] ?? match);
+  return { system: fill(template.system), prompt: fill(template.prompt) };
+}
+
+/**
+ * Normalize a model response and check it has the shape the template asked
+ * for. Returns the cleaned statement, or the reason it was rejected.
+ */
+export function validateAchievementText(
+  text: string,
+  shape: PromptShape
+): { achievement: string; problem?: undefined } | { achievement?: undefined; problem: string } {
+  const lines = text
+    .split('\n')
+    .map(line => line.trim()
+      .replace(/^(?:[-*•]|\d+\.)\s+/, '')
+      .replace(/^(?:achievement|statement|bullet)\s*:\s*/i, '')
+      .replace(/^["'`“]+|["'`”]+$/g, '')
+      .trim())
+    .filter(Boolean);
+
+  if (lines.length === 0) {
+    return { problem: 'the response was empty' };
+  }
+  if (shape.maxSentences === 1 && lines.length > 1) {
+    return { problem: `the response has ${lines.length} lines instead of one statement` };
+  }
+
+  const achievement = lines.join(' ').replace(/\s+/g, ' ');
+
+  if (/^(?:sure|here(?:'s| is| are)|certainly|i can(?:not|'t)|as an ai)\b/i.test(achievement)) {
+    return { problem: 'the response includes commentary instead of only the statement' };
+  }
+  if (achievement.length > shape.maxLength) {
+    return { problem: `the statement is ${achievement.length} characters (limit ${shape.maxLength})` };
+  }
+  if (achievement.length < shape.minLength) {
+    return { problem: `the statement is ${achievement.length} characters (minimum ${shape.minLength})` };
+  }
+
+  const sentences = achievement.split(/[.!?](?:\s+|$)/).filter(s => s.trim()).length;
+  if (sentences > shape.maxSentences) {
+    return { problem: `the statement has ${sentences} sentences (limit ${shape.maxSentences})` };
+  }
+
+  if (shape.actionVerb) {
+    const firstWord = achievement.split(/\s/)[0].toLowerCase();
+    if (!/^[a-z]+ed$/.test(firstWord) && !IRREGULAR_ACTION_VERBS.has(firstWord)) {
+      return { problem: `the statement starts with "${achievement.split(/\s/)[0]}" instead of a past-tense action verb` };
+    }
+  }
+
+  return { achievement };
+}
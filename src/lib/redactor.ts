@@ -0,0 +1,186 @@
+import { createHash } from 'crypto';
+
+export type RedactionKind = 'private-key' | 'token' | 'credential' | 'connection-string' | 'email' | 'high-entropy' | 'custom';
+
+export interface RedactionOptions {
+  // Replace email addresses (default: true)
+  emails?: boolean;
+  // Replace long random-looking strings that no known format matched (default: true)
+  entropy?: boolean;
+  // Extra regular expressions whose matches are replaced
+  patterns?: string[];
+}
+
+export type RedactionCounts = Partial<Record<RedactionKind, number>>;
+
+export interface RedactionResult {
+  text: string;
+  counts: RedactionCounts;
+}
+
+export interface Redactor {
+  // Identifies the rules, so cached AI output is keyed by what was sent
+  fingerprint: string;
+  redact(text: string): RedactionResult;
+}
+
+interface RedactionRule {
+  kind: RedactionKind;
+  pattern: RegExp;
+  // Replace only part of the match (keep "password=" or "postgres://")
+  replace?: (match: string, ...groups: string[]) => string;
+}
+
+const marker = (kind: RedactionKind) => `[REDACTED:${kind}]`;
+
+// Applied in order; earlier rules see the text before later ones run
+const SECRET_RULES: RedactionRule[] = [
+  {
+    kind: 'private-key',
+    // Through the END line, or the end of a truncated diff
+    pattern: /-----BEGIN ([A-Z ]*)PRIVATE KEY-----[\s\S]*?(?:-----END \1PRIVATE KEY-----|$)/g,
+  },
+  { kind: 'token', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { kind: 'token', pattern: /\bgithub_pat_[A-Za-z0-9_]{22,}/g },
+  { kind: 'token', pattern: /\bglpat-[A-Za-z0-9_-]{20,}/g },
+  { kind: 'token', pattern: /\bxox[abeprs]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'token', pattern: /\b[sr]k_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { kind: 'token', pattern: /\bsk-[A-Za-z0-9_-]{20,}/g },
+  { kind: 'token', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'token', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]+/g },
+  {
+    kind: 'token',
+    pattern: /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{16,}/g,
+    replace: (_match, scheme) => `${scheme} ${marker('token')}`,
+  },
+  {
+    kind: 'connection-string',
+    pattern: /\b([a-z][a-z0-9+.-]*:\/\/)[^\s:@/]+:[^\s@/]+@/gi,
+    replace: (_match, scheme) => `${scheme}${marker('connection-string')}@`,
+  },
+  {
+    kind: 'credential',
+    // KEY=value lines (.env, YAML, code) whose name says it holds a secret
+    pattern: /\b([A-Za-z0-9_.-]*(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)[A-Za-z0-9_]*["']?\s*[:=]\s*)(?!["']?\[REDACTED)("[^"\n]{6,}"|'[^'\n]{6,}'|[^\s"',;]{6,})/gi,
+    replace: (_match, name, value) => {
+      const quote = /^["']/.test(value) ? value[0] : '';
+      return `${name}${quote}${marker('credential')}${quote}`;
+    },
+  },
+];
+
+const EMAIL_RULE: RedactionRule = {
+  kind: 'email',
+  pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+};
+
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+/_=-]{20,}/g;
+
+/**
+ * Shannon entropy in bits per character
+ */
+function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Random-looking strings: mixed letters and digits with high entropy. Commit
+ * hashes, identifiers and paths don't qualify.
+ */
+function isHighEntropy(candidate: string): boolean {
+  if (!/[0-9]/.test(candidate) || !/[A-Za-z]/.test(candidate) || candidate.includes('/')) {
+    return false;
+  }
+  if (/^[0-9a-f]+$/i.test(candidate)) {
+    return candidate.length !== 40 && shannonEntropy(candidate) >= 3.5;
+  }
+  return shannonEntropy(candidate) >= 4.2;
+}
+
+/**
+ * Compile user patterns, reporting which one is invalid
+ */
+function compilePatterns(patterns: string[]): RedactionRule[] {
+  return patterns.map(source => {
+    try {
+      return { kind: 'custom' as const, pattern: new RegExp(source, 'g') };
+    } catch (error: any) {
+      throw new Error(`Invalid redaction pattern "${source}": ${error.message}`);
+    }
+  });
+}
+
+/**
+ * Create a redactor that replaces secrets (private keys, known token formats,
+ * credentials in config lines and URLs, high-entropy strings), emails and
+ * custom patterns with [REDACTED:<kind>] markers
+ */
+export function createRedactor(options: RedactionOptions = {}): Redactor {
+  const emails = options.emails !== false;
+  const entropy = options.entropy !== false;
+  const patterns = options.patterns || [];
+  const rules = [...SECRET_RULES, ...compilePatterns(patterns), ...(emails ? [EMAIL_RULE] : [])];
+
+  return {
+    fingerprint: createHash('sha256')
+      .update(JSON.stringify({ emails, entropy, patterns }))
+      .digest('hex')
+      .substring(0, 16),
+    redact(text: string): RedactionResult {
+      const counts: RedactionCounts = {};
+      const count = (kind: RedactionKind) => {
+        counts[kind] = (counts[kind] || 0) + 1;
+      };
+
+      let result = text;
+      for (const rule of rules) {
+        result = result.replace(rule.pattern, (match: string, ...groups: any[]) => {
+          // Custom patterns can match the empty string
+          if (!match) {
+            return match;
+          }
+          count(rule.kind);
+          return rule.replace ? rule.replace(match, ...groups) : marker(rule.kind);
+        });
+      }
+      if (entropy) {
+        result = result.replace(ENTROPY_CANDIDATE, (match) => {
+          if (!isHighEntropy(match)) {
+            return match;
+          }
+          count('high-entropy');
+          return marker('high-entropy');
+        });
+      }
+      return { text: result, counts };
+    },
+  };
+}
+
+/**
+ * Add one set of redaction counts into another
+ */
+export function addRedactionCounts(total: RedactionCounts, counts: RedactionCounts): RedactionCounts {
+  for (const [kind, count] of Object.entries(counts) as [RedactionKind, number][]) {
+    total[kind] = (total[kind] || 0) + count;
+  }
+  return total;
+}
+
+/**
+ * Describe redaction counts, e.g. "2 token, 1 email"
+ */
+export function formatRedactionCounts(counts: RedactionCounts): string {
+  const parts = Object.entries(counts).map(([kind, count]) => `${count} ${kind}`);
+  return parts.length > 0 ? parts.join(', ') : 'nothing';
+}
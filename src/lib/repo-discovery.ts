@@ -0,0 +1,108 @@
+import { existsSync, readdirSync, statSync } from 'fs';
+import { basename, join, resolve } from 'path';
+
+// Directories that never contain repositories worth scanning
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules',
+  'dist',
+  'build',
+  'vendor',
+  '.cache',
+]);
+
+/**
+ * Check whether a directory is the root of a git repository
+ */
+export function isGitRepository(dirPath: string): boolean {
+  // `.git` is a directory for normal clones and a file for worktrees/submodules
+  return existsSync(join(dirPath, '.git'));
+}
+
+/**
+ * Scan a workspace directory for git repositories
+ */
+export function findGitRepositories(workspacePath: string, maxDepth: number = 2): string[] {
+  const root = resolve(workspacePath);
+  const repositories: string[] = [];
+
+  const scan = (dirPath: string, depth: number) => {
+    if (isGitRepository(dirPath)) {
+      repositories.push(dirPath);
+      // Don't descend into a repository looking for nested ones
+      return;
+    }
+    if (depth >= maxDepth) {
+      return;
+    }
+
+    let children: string[] = [];
+    try {
+      children = readdirSync(dirPath);
+    } catch (error) {
+      // Unreadable directory - skip it
+      return;
+    }
+
+    for (const child of children.sort()) {
+      if (child.startsWith('.') || IGNORED_DIRECTORIES.has(child)) {
+        continue;
+      }
+      const childPath = join(dirPath, child);
+      try {
+        if (statSync(childPath).isDirectory()) {
+          scan(childPath, depth + 1);
+        }
+      } catch (error) {
+        // Broken symlink or permission error - skip it
+      }
+    }
+  };
+
+  scan(root, 0);
+  return repositories;
+}
+
+/**
+ * Resolve the list of repositories to analyze from --repo and --workspace options
+ */
+export function resolveRepositories(options: {
+  repo?: string | string[];
+  workspace?: string | string[];
+}): string[] {
+  const repoPaths = ([] as string[]).concat(options.repo || []);
+  const workspacePaths = ([] as string[]).concat(options.workspace || []);
+  const resolved: string[] = repoPaths.map((repoPath) => resolve(repoPath));
+
+  for (const workspacePath of workspacePaths) {
+    const found = findGitRepositories(workspacePath);
+    if (found.length === 0) {
+      throw new Error(`No git repositories found in workspace: ${resolve(workspacePath)}`);
+    }
+    resolved.push(...found);
+  }
+
+  if (resolved.length === 0) {
+    resolved.push(process.cwd());
+  }
+
+  // Remove duplicates while keeping the order the user gave
+  return Array.from(new Set(resolved));
+}
+
+/**
+ * Build short, unique display names for a set of repository paths
+ */
+export function getRepositoryNames(repoPaths: string[]): Record<string, string> {
+  const names: Record<string, string> = {};
+  const used = new Map<string, number>();
+
+  for (const repoPath of repoPaths) {
+    const name = basename(repoPath) || repoPath;
+    const count = used.get(name) || 0;
+    used.set(name, count + 1);
+    // Disambiguate repositories with the same folder name (e.g. two `api` checkouts)
+    names[repoPath] = count === 0 ? name : `${name}-${count + 1}`;
+  }
+
+  return names;
+}
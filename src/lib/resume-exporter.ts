@@ -0,0 +1,217 @@
+import { basename } from 'path';
+import { CareerLog, CareerLogEntry } from './output-formatter.js';
+
+export type ResumeFormat = 'json-resume' | 'latex' | 'md';
+
+export const RESUME_FORMATS: ResumeFormat[] = ['json-resume', 'latex', 'md'];
+
+export interface ResumeExportOptions {
+  maxBullets?: number;
+  minConfidence?: number;
+  position?: string;
+}
+
+export interface ResumeBullet {
+  text: string;
+  theme: string;
+  impact: CareerLogEntry['impact'];
+  confidence: number;
+  score: number;
+  commits: string[];
+}
+
+export interface ResumeRole {
+  name: string;
+  startDate?: string;
+  endDate?: string;
+  bullets: ResumeBullet[];
+}
+
+const IMPACT_WEIGHT: Record<CareerLogEntry['impact'], number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+/**
+ * Rank entries: impact first, then confidence, then size of the change
+ */
+function scoreEntry(entry: CareerLogEntry): number {
+  const size = Math.log10((entry.linesChanged || 0) + 1) / 10;
+  return IMPACT_WEIGHT[entry.impact] * 10 + (entry.confidence ?? 0.5) + size;
+}
+
+/**
+ * Normalize achievement text so near-identical bullets collapse together
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\d+/g, '#')
+    .replace(/[^a-z# ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Resume bullets start with a capital letter and don't end with a period
+ */
+function polishBullet(text: string): string {
+  const trimmed = text.trim().replace(/[.\s]+$/, '');
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+}
+
+/**
+ * Theme of an entry for grouping (component, then primary file type)
+ */
+function getTheme(entry: CareerLogEntry): string {
+  return entry.component || entry.fileTypes?.[0] || 'General';
+}
+
+/**
+ * Deduplicate and rank a role's entries, then pick bullets so the strongest
+ * themes are covered before any theme gets a second bullet
+ */
+function selectBullets(entries: CareerLogEntry[], maxBullets: number): ResumeBullet[] {
+  const unique = new Map<string, ResumeBullet>();
+
+  for (const entry of entries) {
+    const key = normalizeText(entry.achievement);
+    const bullet: ResumeBullet = {
+      text: polishBullet(entry.achievement),
+      theme: getTheme(entry),
+      impact: entry.impact,
+      confidence: entry.confidence ?? 0.5,
+      score: scoreEntry(entry),
+      commits: entry.commit ? [entry.commit] : [],
+    };
+
+    const existing = unique.get(key);
+    if (!existing) {
+      unique.set(key, bullet);
+    } else {
+      const best = bullet.score > existing.score ? bullet : existing;
+      unique.set(key, { ...best, commits: [...existing.commits, ...bullet.commits] });
+    }
+  }
+
+  // Group by theme, strongest first within each theme
+  const byTheme = new Map<string, ResumeBullet[]>();
+  for (const bullet of Array.from(unique.values()).sort((a, b) => b.score - a.score)) {
+    const themeBullets = byTheme.get(bullet.theme) || [];
+    themeBullets.push(bullet);
+    byTheme.set(bullet.theme, themeBullets);
+  }
+
+  // Round-robin across themes (ordered by their best bullet) until the budget is spent
+  const themes = Array.from(byTheme.keys());
+  const selected: ResumeBullet[] = [];
+  for (let round = 0; selected.length < maxBullets; round++) {
+    let added = false;
+    for (const theme of themes) {
+      const bullet = byTheme.get(theme)![round];
+      if (bullet && selected.length < maxBullets) {
+        selected.push(bullet);
+        added = true;
+      }
+    }
+    if (!added) {
+      break;
+    }
+  }
+
+  // Present bullets grouped by theme, in theme order
+  return selected.sort((a, b) => themes.indexOf(a.theme) - themes.indexOf(b.theme) || b.score - a.score);
+}
+
+/**
+ * Build resume roles (one per repository) from a career log
+ */
+export function buildResumeRoles(log: CareerLog, options: ResumeExportOptions = {}): ResumeRole[] {
+  const maxBullets = options.maxBullets ?? 5;
+  const minConfidence = options.minConfidence ?? 0;
+  const fallbackName = basename(log.repository || '') || 'Projects';
+
+  const byRole = new Map<string, CareerLogEntry[]>();
+  for (const entry of log.entries) {
+    if ((entry.confidence ?? 1) < minConfidence) {
+      continue;
+    }
+    const role = entry.repository || fallbackName;
+    const roleEntries = byRole.get(role) || [];
+    roleEntries.push(entry);
+    byRole.set(role, roleEntries);
+  }
+
+  return Array.from(byRole.entries()).map(([name, entries]) => {
+    const days = entries.map(e => e.date.split(/[T ]/)[0]).sort();
+    return {
+      name,
+      startDate: days[0],
+      endDate: days[days.length - 1],
+      bullets: selectBullets(entries, maxBullets),
+    };
+  });
+}
+
+/**
+ * JSON Resume `work` section (https://jsonresume.org/schema)
+ */
+export function formatJsonResume(roles: ResumeRole[], options: ResumeExportOptions = {}): string {
+  const work = roles.map(role => ({
+    name: role.name,
+    ...(options.position ? { position: options.position } : {}),
+    startDate: role.startDate,
+    endDate: role.endDate,
+    highlights: role.bullets.map(b => b.text),
+  }));
+  return JSON.stringify({ work }, null, 2);
+}
+
+/**
+ * Escape LaTeX special characters
+ */
+function escapeLatex(text: string): string {
+  return text
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/([&%$#_{}])/g, '\\$1')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}');
+}
+
+export function formatLatexBullets(roles: ResumeRole[]): string {
+  return roles.map(role => {
+    const items = role.bullets.map(b => `  \\item ${escapeLatex(b.text)}`).join('\n');
+    return `% ${escapeLatex(role.name)}\n\\begin{itemize}\n${items}\n\\end{itemize}\n`;
+  }).join('\n');
+}
+
+export function formatMarkdownBullets(roles: ResumeRole[]): string {
+  return roles.map(role => {
+    const items = role.bullets.map(b => `- ${b.text}`).join('\n');
+    return `### ${role.name}\n\n${items}\n`;
+  }).join('\n');
+}
+
+/**
+ * Export a career log as resume bullets in the requested format
+ */
+export function formatResume(
+  log: CareerLog,
+  format: ResumeFormat,
+  options: ResumeExportOptions = {}
+): string {
+  if (!RESUME_FORMATS.includes(format)) {
+    throw new Error(`Unknown resume format "${format}" (expected one of: ${RESUME_FORMATS.join(', ')})`);
+  }
+
+  const roles = buildResumeRoles(log, options);
+  switch (format) {
+    case 'json-resume':
+      return formatJsonResume(roles, options);
+    case 'latex':
+      return formatLatexBullets(roles);
+    case 'md':
+      return formatMarkdownBullets(roles);
+  }
+}
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { fetchGitHubReviews, fetchGitLabReviews, createReviewEntries } from './review-activity.js';
+import { getEntryKey } from './log-store.js';
+import { MockServer, sendJson, startMockServer } from '../test/mock-server.js';
+
+describe('review activity', () => {
+  let server: MockServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  // Routes by path; unknown paths are 404s
+  const start = async (route: (path: string, params: URLSearchParams) => { data: unknown; status?: number } | undefined) => {
+    server = await startMockServer((request, res) => {
+      const url = new URL(request.url, server!.url);
+      const response = route(url.pathname, url.searchParams);
+      sendJson(res, response ? response.data : { message: 'Not Found' }, response ? response.status : 404);
+    });
+    return server;
+  };
+
+  it('collects GitHub reviews, skipping PRs that cannot be read', async () => {
+    const mock = await start((path, params) => {
+      if (path === '/search/issues') {
+        const items = params.get('q')!.includes('reviewed-by:me')
+          ? [['acme/api', 12], ['other/api', 12], ['acme/api', 13]].map(([project, number]) => ({
+            html_url: `https://github.com/${project}/pull/${number}`,
+            repository_url: `${server!.url}/repos/${project}`,
+            number,
+          }))
+          : [];
+        return { data: { total_count: items.length, items } };
+      }
+      if (path === '/repos/acme/api/pulls/13') {
+        return { data: { message: 'Server Error' }, status: 500 };
+      }
+      const pr = path.match(/^\/repos\/(\w+)\/api\/pulls\/12(\/\w+)?$/);
+      if (!pr) {
+        return undefined;
+      }
+      switch (pr[2]) {
+        case undefined:
+          return { data: { title: `Add ${pr[1]} export`, html_url: `https://github.com/${pr[1]}/api/pull/12`, user: { login: 'alice' }, additions: 10, deletions: 2 } };
+        case '/reviews':
+          return { data: [{ user: { login: 'me' }, state: 'APPROVED', submitted_at: '2025-01-10T10:00:00Z' }] };
+        case '/files':
+          return { data: [{ filename: 'src/export.ts', patch: '+export' }] };
+        default:
+          return { data: [] };
+      }
+    });
+
+    const errors: string[] = [];
+    const reviews = await fetchGitHubReviews({
+      token: 'gh-token',
+      username: 'me',
+      apiUrl: mock.url,
+      onError: (pr, error) => errors.push(`${pr}: ${error.message}`),
+    });
+
+    expect(reviews.map(review => `${review.project}#${review.number}`)).toEqual(['acme/api#12', 'other/api#12']);
+    expect(reviews[0]).toMatchObject({ states: ['approved'], comments: 0, reviewedAt: '2025-01-10T10:00:00Z', files: ['src/export.ts'] });
+    expect(errors).toEqual(['https://github.com/acme/api/pull/13: could not read the pull request']);
+
+    // Same repository name and number in two projects: two entries
+    const entries = await createReviewEntries(reviews);
+    expect(entries.map(entry => entry.repository)).toEqual(['acme/api', 'other/api']);
+    expect(entries.every(entry => entry.dataLocal === false)).toBe(true);
+    expect(new Set(entries.map(getEntryKey)).size).toBe(2);
+  });
+
+  it('finds GitLab MRs the user only commented on', async () => {
+    const mock = await start((path, params) => {
+      switch (path) {
+        case '/api/v4/merge_requests':
+          return {
+            data: params.has('reviewer_username')
+              ? [{ project_id: 1, iid: 3, title: 'Broken MR', author: { username: 'alice' }, web_url: 'https://gitlab.example.com/acme/api/-/merge_requests/3' }]
+              : [],
+          };
+        case '/api/v4/users/me/events':
+          return {
+            data: [
+              { project_id: 5, note: { noteable_type: 'MergeRequest', noteable_iid: 8 } },
+              { project_id: 5, note: { noteable_type: 'MergeRequest', noteable_iid: 8 } },
+              { project_id: 1, note: { noteable_type: 'MergeRequest', noteable_iid: 3 } },
+              { project_id: 5, note: { noteable_type: 'Issue', noteable_iid: 2 } },
+            ],
+          };
+        case '/api/v4/projects/5/merge_requests/8':
+          return {
+            data: {
+              project_id: 5,
+              iid: 8,
+              title: 'Speed up search',
+              author: { username: 'bob' },
+              web_url: 'https://gitlab.example.com/acme/platform/search/-/merge_requests/8',
+              references: { full: 'acme/platform/search!8' },
+            },
+          };
+        case '/api/v4/projects/5/merge_requests/8/changes':
+          return { data: { changes: [{ new_path: 'src/index.ts', diff: '+cache\n-scan\n' }] } };
+        case '/api/v4/projects/5/merge_requests/8/notes':
+          return {
+            data: [
+              { author: { username: 'me' }, created_at: '2025-01-05T09:00:00Z' },
+              { author: { username: 'me' }, created_at: '2025-01-06T09:00:00Z', system: true },
+              { author: { username: 'bob' }, created_at: '2025-01-07T09:00:00Z' },
+            ],
+          };
+        case '/api/v4/projects/1/merge_requests/3/changes':
+          return { data: { message: 'Server Error' }, status: 500 };
+        default:
+          return undefined;
+      }
+    });
+
+    const errors: string[] = [];
+    const reviews = await fetchGitLabReviews({
+      token: 'gl-token',
+      username: 'me',
+      since: '2025-01-01',
+      apiUrl: mock.url,
+      onError: (pr, error) => errors.push(`${pr}: ${error.message}`),
+    });
+
+    expect(reviews).toEqual([{
+      platform: 'gitlab',
+      project: 'acme/platform/search',
+      number: 8,
+      title: 'Speed up search',
+      url: 'https://gitlab.example.com/acme/platform/search/-/merge_requests/8',
+      author: 'bob',
+      states: ['commented'],
+      comments: 1,
+      reviewedAt: '2025-01-05T09:00:00Z',
+      files: ['src/index.ts'],
+      insertions: 1,
+      deletions: 1,
+      diff: '+cache\n-scan\n',
+    }]);
+    expect(errors).toEqual(['https://gitlab.example.com/acme/api/-/merge_requests/3: could not read the changes']);
+    // "after" is exclusive, so the day before --since
+    expect(mock.requests.find(request => request.url.startsWith('/api/v4/users/me/events'))?.url).toContain('&after=2024-12-31&');
+    // The MR found by search is not fetched again
+    expect(mock.requests.filter(request => request.url === '/api/v4/projects/1/merge_requests/3')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,365 @@
+import { Commit, MAX_PATCH_LENGTH } from './git-parser.js';
+import { analyzeDiff } from './diff-analyzer.js';
+import { CareerLogEntry } from './output-formatter.js';
+import { fetchJson, fetchAllPages, GITHUB_API_URL } from './pr-parser.js';
+import { isNetworkGuardError } from './network-guard.js';
+import { mapWithConcurrency } from './worker-pool.js';
+import { getDefaultPatterns, PatternSet } from './pattern-packs.js';
+
+export type ReviewState = 'approved' | 'changes_requested' | 'commented';
+
+export interface ReviewedPR {
+  platform: 'github' | 'gitlab';
+  // owner/repo on GitHub, the full project path on GitLab
+  project: string;
+  number: number;
+  title: string;
+  url?: string;
+  author?: string;
+  // What the reviewer did, in the order first seen
+  states: ReviewState[];
+  // Comments the reviewer left, on the diff and in the conversation
+  comments: number;
+  // The reviewer's latest activity on the PR
+  reviewedAt: string;
+  files: string[];
+  insertions: number;
+  deletions: number;
+  diff: string;
+}
+
+export interface ReviewActivityOptions {
+  token: string;
+  // Defaults to the token's user
+  username?: string;
+  since?: string;
+  until?: string;
+  // Most reviewed PRs to collect
+  limit?: number;
+  // GitHub API base URL, or the GitLab instance URL
+  apiUrl?: string;
+  concurrency?: number;
+  // Called for a PR that could not be read; the PR is skipped
+  onError?: (pr: string, error: Error) => void;
+}
+
+const GITHUB_STATES: Record<string, ReviewState> = {
+  APPROVED: 'approved',
+  CHANGES_REQUESTED: 'changes_requested',
+  COMMENTED: 'commented',
+};
+
+/**
+ * Search date for GitHub's "updated:" qualifier (YYYY-MM-DD)
+ */
+function toSearchDate(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${value}" for review activity (expected an ISO date like 2025-01-31)`);
+  }
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Whether the reviewer's activity falls in the requested range
+ */
+function isInRange(date: string, since?: string, until?: string): boolean {
+  const time = new Date(date).getTime();
+  return (!since || time >= new Date(since).getTime()) && (!until || time <= new Date(until).getTime());
+}
+
+function latest(dates: (string | undefined)[]): string | undefined {
+  return dates.filter((date): date is string => !!date).sort().pop();
+}
+
+/**
+ * Read one PR, skipping it when a request fails so one PR can't fail the run
+ */
+async function readOrSkip<T>(
+  pr: string,
+  options: ReviewActivityOptions,
+  read: () => Promise<T | null>
+): Promise<T | null> {
+  try {
+    return await read();
+  } catch (error) {
+    // A blocked request in enterprise mode must not look like an unreadable PR
+    if (isNetworkGuardError(error)) {
+      throw error;
+    }
+    options.onError?.(pr, error as Error);
+    return null;
+  }
+}
+
+function countLines(diff: string): { insertions: number; deletions: number } {
+  return {
+    insertions: (diff.match(/^\+(?!\+\+)/gm) || []).length,
+    deletions: (diff.match(/^-(?!--)/gm) || []).length,
+  };
+}
+
+/**
+ * PRs on GitHub that the user reviewed, approved or commented on (their own
+ * PRs excluded), with the reviewed diff
+ */
+export async function fetchGitHubReviews(options: ReviewActivityOptions): Promise<ReviewedPR[]> {
+  const apiUrl = (options.apiUrl || GITHUB_API_URL).replace(/\/+$/, '');
+  const headers = {
+    'Authorization': `token ${options.token}`,
+    'Accept': 'application/vnd.github.v3+json',
+    'User-Agent': 'career-log-cli',
+  };
+  const limit = options.limit ?? 100;
+
+  const username = options.username || (await fetchJson(`${apiUrl}/user`, headers))?.data?.login;
+  if (!username) {
+    throw new Error('Could not determine the GitHub user for review activity; pass --review-user');
+  }
+
+  // "updated" bounds the search; each PR's own review dates are checked below
+  const range = options.since || options.until
+    ? ` updated:${options.since ? toSearchDate(options.since) : '*'}..${options.until ? toSearchDate(options.until) : '*'}`
+    : '';
+  const found = new Map<string, any>();
+  for (const role of ['reviewed-by', 'commenter']) {
+    const query = encodeURIComponent(`type:pr ${role}:${username} -author:${username}${range}`);
+    const items = await fetchAllPages(`${apiUrl}/search/issues?q=${query}&sort=updated&per_page=100`, headers, Math.ceil(limit / 100));
+    for (const item of items) {
+      found.set(item.html_url, item);
+    }
+  }
+
+  const reviews = await mapWithConcurrency(Array.from(found.values()).slice(0, limit), options.concurrency ?? 4, (item): Promise<ReviewedPR | null> => readOrSkip(item.html_url, options, async () => {
+    const project = String(item.repository_url).split('/repos/')[1];
+    const url = `${apiUrl}/repos/${project}/pulls/${item.number}`;
+    const pr = (await fetchJson(url, headers))?.data;
+    if (!pr) {
+      throw new Error('could not read the pull request');
+    }
+
+    const [reviews, reviewComments, issueComments, files] = await Promise.all([
+      fetchAllPages(`${url}/reviews?per_page=100`, headers),
+      fetchAllPages(`${url}/comments?per_page=100`, headers),
+      fetchAllPages(`${apiUrl}/repos/${project}/issues/${item.number}/comments?per_page=100`, headers),
+      fetchAllPages(`${url}/files?per_page=100`, headers),
+    ]);
+    const mine = (list: any[]) => list.filter(entry => entry.user?.login === username);
+    const myReviews = mine(reviews).filter(review => GITHUB_STATES[review.state]);
+    const myComments = [...mine(reviewComments), ...mine(issueComments)];
+
+    const reviewedAt = latest([
+      ...myReviews.map(review => review.submitted_at),
+      ...myComments.map(comment => comment.created_at),
+    ]);
+    if (!reviewedAt || !isInRange(reviewedAt, options.since, options.until)) {
+      return null;
+    }
+
+    const states = Array.from(new Set<ReviewState>(myReviews.map(review => GITHUB_STATES[review.state])));
+    if (states.length === 0) {
+      states.push('commented');
+    }
+
+    return {
+      platform: 'github',
+      project,
+      number: item.number,
+      title: pr.title,
+      url: pr.html_url,
+      author: pr.user?.login,
+      states,
+      comments: myComments.length,
+      reviewedAt,
+      files: files.map(file => file.filename),
+      insertions: pr.additions || 0,
+      deletions: pr.deletions || 0,
+      diff: files.map(file => file.patch || '').join('\n').substring(0, MAX_PATCH_LENGTH),
+    };
+  }));
+
+  return reviews.filter((review): review is ReviewedPR => !!review);
+}
+
+/**
+ * Merge requests on GitLab where the user was a reviewer or approver, or
+ * left comments (their own MRs excluded), with the reviewed diff
+ */
+export async function fetchGitLabReviews(options: ReviewActivityOptions): Promise<ReviewedPR[]> {
+  const apiUrl = `${(options.apiUrl || 'https://gitlab.com').replace(/\/+$/, '')}/api/v4`;
+  const headers = { 'PRIVATE-TOKEN': options.token };
+  const limit = options.limit ?? 100;
+
+  const username = options.username || (await fetchJson(`${apiUrl}/user`, headers))?.data?.username;
+  if (!username) {
+    throw new Error('Could not determine the GitLab user for review activity; pass --review-user');
+  }
+
+  const range = [
+    options.since ? `&updated_after=${encodeURIComponent(new Date(options.since).toISOString())}` : '',
+    options.until ? `&updated_before=${encodeURIComponent(new Date(options.until).toISOString())}` : '',
+  ].join('');
+  const found = new Map<string, any>();
+  for (const filter of [`reviewer_username=${username}`, `approved_by_usernames[]=${username}`]) {
+    const items = await fetchAllPages(`${apiUrl}/merge_requests?scope=all&${filter}${range}&per_page=100`, headers, Math.ceil(limit / 100));
+    for (const item of items) {
+      if (item.author?.username !== username) {
+        found.set(`${item.project_id}!${item.iid}`, item);
+      }
+    }
+  }
+
+  // MRs the user only commented on can't be searched for; their comment
+  // events name them. "after" and "before" are exclusive days.
+  const day = 24 * 60 * 60 * 1000;
+  const eventRange = [
+    options.since ? `&after=${toSearchDate(new Date(new Date(options.since).getTime() - day).toISOString())}` : '',
+    options.until ? `&before=${toSearchDate(new Date(new Date(options.until).getTime() + day).toISOString())}` : '',
+  ].join('');
+  const events = await fetchAllPages(`${apiUrl}/users/${encodeURIComponent(username)}/events?action=commented${eventRange}&per_page=100`, headers, Math.ceil(limit / 100));
+  const commented = new Map<string, { project_id: number; iid: number }>();
+  for (const event of events) {
+    const key = `${event.project_id}!${event.note?.noteable_iid}`;
+    if (event.note?.noteable_type === 'MergeRequest' && event.note.noteable_iid && !found.has(key)) {
+      commented.set(key, { project_id: event.project_id, iid: event.note.noteable_iid });
+    }
+  }
+  const commentedMRs = await mapWithConcurrency(Array.from(commented.values()).slice(0, Math.max(0, limit - found.size)), options.concurrency ?? 4, ({ project_id, iid }) => readOrSkip<any>(`project ${project_id} !${iid}`, options, async () => {
+    const mr = (await fetchJson(`${apiUrl}/projects/${project_id}/merge_requests/${iid}`, headers))?.data;
+    if (!mr) {
+      throw new Error('could not read the merge request');
+    }
+    return mr;
+  }));
+  for (const mr of commentedMRs) {
+    if (mr && mr.author?.username !== username) {
+      found.set(`${mr.project_id}!${mr.iid}`, mr);
+    }
+  }
+
+  const reviews = await mapWithConcurrency(Array.from(found.values()).slice(0, limit), options.concurrency ?? 4, (mr): Promise<ReviewedPR | null> => readOrSkip(mr.web_url || `project ${mr.project_id} !${mr.iid}`, options, async () => {
+    const url = `${apiUrl}/projects/${mr.project_id}/merge_requests/${mr.iid}`;
+    const [changes, approvals, notes] = await Promise.all([
+      fetchJson(`${url}/changes`, headers),
+      // Approvals are unavailable on some tiers
+      fetchJson(`${url}/approvals`, headers).catch(error => {
+        if (isNetworkGuardError(error)) {
+          throw error;
+        }
+        return null;
+      }),
+      fetchAllPages(`${url}/notes?per_page=100`, headers),
+    ]);
+    if (!changes) {
+      throw new Error('could not read the changes');
+    }
+    const myNotes = notes.filter(note => !note.system && note.author?.username === username);
+    const approved = (approvals?.data?.approved_by || []).some((approval: any) => approval.user?.username === username);
+
+    // Approvals carry no date; fall back to the MR's last update
+    const reviewedAt = latest(myNotes.map(note => note.created_at)) || mr.merged_at || mr.updated_at;
+    if (!reviewedAt || !isInRange(reviewedAt, options.since, options.until)) {
+      return null;
+    }
+
+    const states: ReviewState[] = [];
+    if (approved) {
+      states.push('approved');
+    }
+    if (myNotes.length > 0 || states.length === 0) {
+      states.push('commented');
+    }
+
+    const diffs: any[] = changes?.data?.changes || [];
+    const diff = diffs.map(change => change.diff || '').join('\n');
+    return {
+      platform: 'gitlab',
+      project: mr.references?.full?.split('!')[0] || String(mr.web_url || '').split('/-/')[0].split('/').slice(3).join('/'),
+      number: mr.iid,
+      title: mr.title,
+      url: mr.web_url,
+      author: mr.author?.username,
+      states,
+      comments: myNotes.length,
+      reviewedAt,
+      files: diffs.map(change => change.new_path),
+      ...countLines(diff),
+      diff: diff.substring(0, MAX_PATCH_LENGTH),
+    };
+  }));
+
+  return reviews.filter((review): review is ReviewedPR => !!review);
+}
+
+/**
+ * Achievement text for a review, e.g.
+ * "Reviewed and approved alice's PR "Add usage-based billing" (acme/shop#412) with 6 comments"
+ */
+export function describeReview(review: ReviewedPR): string {
+  const approved = review.states.includes('approved');
+  const changesRequested = review.states.includes('changes_requested');
+  const verb = approved && changesRequested
+    ? 'Reviewed and approved, after requesting changes,'
+    : approved
+      ? 'Reviewed and approved'
+      : changesRequested
+        ? 'Reviewed and requested changes on'
+        : 'Reviewed';
+  const kind = review.platform === 'gitlab' ? 'MR' : 'PR';
+  const reference = `${review.project}${review.platform === 'gitlab' ? '!' : '#'}${review.number}`;
+  const comments = review.comments > 0 ? ` with ${review.comments} comment${review.comments !== 1 ? 's' : ''}` : '';
+  return `${verb} ${review.author ? `${review.author}'s ` : ''}${kind} "${review.title}" (${reference})${comments}`;
+}
+
+/**
+ * Turn reviewed PRs into career log entries. Impact comes from the reviewed
+ * change, scored with the same heuristics as authored commits.
+ */
+export async function createReviewEntries(
+  reviews: ReviewedPR[],
+  patterns: PatternSet = getDefaultPatterns()
+): Promise<CareerLogEntry[]> {
+  const entries: CareerLogEntry[] = [];
+  for (const review of reviews) {
+    const change: Commit = {
+      hash: `${review.project}#${review.number}`,
+      date: review.reviewedAt,
+      message: review.title,
+      author: review.author || '',
+      files: review.files,
+      insertions: review.insertions,
+      deletions: review.deletions,
+      diff: review.diff,
+    };
+    const analysis = await analyzeDiff(change, '', patterns);
+
+    entries.push({
+      kind: 'review',
+      date: review.reviewedAt,
+      achievement: describeReview(review),
+      confidence: 0.9,
+      aiGenerated: false,
+      // Fetched from the GitHub or GitLab API
+      dataLocal: false,
+      impact: analysis.impactLevel,
+      repository: review.project,
+      pr: {
+        number: review.number,
+        title: review.title,
+        url: review.url,
+        author: review.author,
+      },
+      review: {
+        project: review.project,
+        states: review.states,
+        comments: review.comments,
+      },
+      filesChanged: review.files.length,
+      linesChanged: review.insertions + review.deletions,
+      signals: analysis.signals,
+      fileTypes: analysis.fileTypes,
+      changeMetrics: analysis.changeMetrics,
+    });
+  }
+  return entries;
+}
@@ -0,0 +1,117 @@
+import { DiffAnalysis } from './diff-analyzer.js';
+
+export interface SelectionCandidate {
+  // Stable tie-breaker, e.g. "<repository>:<hash>"
+  key: string;
+  date: string;
+  analysis: DiffAnalysis;
+  commits: number;
+  // Estimated USD cost of generating this achievement with the LLM
+  estimatedCost?: number;
+  // An AI achievement is already cached, so it costs nothing
+  cachedAI?: boolean;
+}
+
+export interface SelectionPolicy {
+  aiEnabled: boolean;
+  skipLowImpact?: boolean;
+  maxEntries?: number;
+  maxAiCalls?: number;
+  maxAiCost?: number;
+}
+
+export type AIDecision = 'granted' | 'cached' | 'over-budget';
+
+export interface SelectionDecision {
+  rank: number;
+  score: number;
+  keep: boolean;
+  dropReason?: 'low-impact' | 'max-entries';
+  ai?: AIDecision;
+}
+
+const IMPACT_SCORE: Record<DiffAnalysis['impactLevel'], number> = {
+  high: 100,
+  medium: 50,
+  low: 0,
+};
+
+/**
+ * Value of a commit (or cluster) for the log: impact first, then critical
+ * files, signals, size and how many commits it covers
+ */
+export function scoreCandidate(candidate: SelectionCandidate): number {
+  const { analysis } = candidate;
+  const signals = analysis.signals.filter(signal => signal !== 'Standard commit').length;
+  const score = IMPACT_SCORE[analysis.impactLevel] +
+    analysis.changeMetrics.criticalFilesModified * 10 +
+    signals * 5 +
+    Math.log10(analysis.changeMetrics.totalLines + 1) * 5 +
+    (candidate.commits - 1) * 2;
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Rank candidates and apply the budgets. Lowest-ranked candidates are dropped
+ * first (--skip-low-impact, --max-entries) and routed to pattern generation
+ * first (--max-ai-calls, --max-ai-cost). Decisions are parallel to the input.
+ */
+export function selectCandidates(candidates: SelectionCandidate[], policy: SelectionPolicy): SelectionDecision[] {
+  const scores = candidates.map(scoreCandidate);
+  const order = candidates
+    .map((_, i) => i)
+    .sort((a, b) =>
+      scores[b] - scores[a] ||
+      new Date(candidates[b].date).getTime() - new Date(candidates[a].date).getTime() ||
+      candidates[a].key.localeCompare(candidates[b].key));
+
+  const decisions: SelectionDecision[] = new Array(candidates.length);
+  order.forEach((index, position) => {
+    decisions[index] = { rank: position + 1, score: scores[index], keep: true };
+  });
+
+  // --skip-low-impact drops the lower-ranked half of low-impact commits
+  if (policy.skipLowImpact) {
+    const lowImpact = order.filter(i => candidates[i].analysis.impactLevel === 'low');
+    for (const index of lowImpact.slice(Math.ceil(lowImpact.length / 2))) {
+      decisions[index] = { ...decisions[index], keep: false, dropReason: 'low-impact' };
+    }
+  }
+
+  let kept = 0;
+  let aiCalls = 0;
+  let aiCost = 0;
+
+  for (const index of order) {
+    const decision = decisions[index];
+    if (!decision.keep) {
+      continue;
+    }
+    if (policy.maxEntries !== undefined && kept >= policy.maxEntries) {
+      decisions[index] = { ...decision, keep: false, dropReason: 'max-entries' };
+      continue;
+    }
+    kept++;
+
+    if (!policy.aiEnabled) {
+      continue;
+    }
+    const candidate = candidates[index];
+    if (candidate.cachedAI) {
+      decision.ai = 'cached';
+      continue;
+    }
+    const cost = candidate.estimatedCost || 0;
+    const withinCalls = policy.maxAiCalls === undefined || aiCalls < policy.maxAiCalls;
+    const withinCost = policy.maxAiCost === undefined || aiCost + cost <= policy.maxAiCost;
+    if (withinCalls && withinCost) {
+      decision.ai = 'granted';
+      aiCalls++;
+      aiCost += cost;
+    } else {
+      decision.ai = 'over-budget';
+    }
+  }
+
+  return decisions;
+}
@@ -0,0 +1,47 @@
+/**
+ * Map items through an async worker with at most `concurrency` in flight.
+ * Results keep the input order; the first failure rejects and stops new work.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onProgress?: (completed: number, total: number) => void
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let completed = 0;
+  let failed = false;
+
+  const runWorker = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+      completed++;
+      onProgress?.(completed, items.length);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, runWorker));
+  return results;
+}
+
+/**
+ * Parse a concurrency option, defaulting when unset
+ */
+export function parseConcurrency(value: unknown, name: string, fallback: number): number {
+  if (value === undefined || value === null || value === '') {
+    return fallback;
+  }
+  const parsed = parseInt(String(value), 10);
+  if (isNaN(parsed) || parsed < 1) {
+    throw new Error(`${name} must be a positive number (got "${value}")`);
+  }
+  return parsed;
+}
@@ -0,0 +1,63 @@
+import { createServer, IncomingHttpHeaders, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  // Path and query, e.g. /v1/chat/completions?api-version=2024-06-01
+  url: string;
+  headers: IncomingHttpHeaders;
+  // Parsed JSON body, or the raw text when it isn't JSON
+  body: any;
+}
+
+export interface MockServer {
+  // http://127.0.0.1:<port>
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+export type MockHandler = (request: RecordedRequest, response: ServerResponse) => void;
+
+/**
+ * Send a JSON response
+ */
+export function sendJson(response: ServerResponse, data: unknown, status: number = 200, headers: Record<string, string> = {}): void {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(data));
+}
+
+/**
+ * Start an HTTP server on a free local port that records every request
+ */
+export function startMockServer(handler: MockHandler): Promise<MockServer> {
+  const requests: RecordedRequest[] = [];
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      let body: any = raw;
+      try {
+        body = raw ? JSON.parse(raw) : undefined;
+      } catch {
+        // Not JSON; keep the text
+      }
+      const request = { method: req.method || 'GET', url: req.url || '/', headers: req.headers, body };
+      requests.push(request);
+      handler(request, res);
+    });
+  });
+
+  return new Promise(resolvePromise => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolvePromise({
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise(resolveClose => server.close(() => resolveClose())),
+      });
+    });
+  });
+}